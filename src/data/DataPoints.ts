@@ -1,58 +1,65 @@
-export const dataPoints = [
-  'AIApplication',
-  'ApexClass',
-  'ApexExecutionOverlayAction',
-  'ApexPage',
-  'ApexTrigger',
-  'AuraDefinitionBundle',
-  'AutoResponseRule',
-  'BusinessProcessDefinition',
-  'BrandingSet',
-  'CleanDataService',
-  'CleanRule',
-  'CustomApplication',
-  'CustomField',
-  'CustomHttpHeader',
-  'CspTrustedSite',
-  'CustomObject',
-  'CustomTab',
-  'DataIntegrationRecordPurchasePermission',
-  'DuplicateJobDefinition',
-  'EmailTemplate',
-  'ExternalDataSource',
-  'FieldSet',
-  'FlowDefinition',
-  'GlobalValueSet',
-  'Group',
-  'HomePageLayout',
-  'InboundNetworkConnection',
-  'LightningComponentBundle',
-  'Layout',
-  'LookupFilter',
-  'MatchingRule',
-  'MarketingAppExtension',
-  'ModerationRule',
-  'NamedCredential',
-  'OpportunitySplitType',
-  'OrgDomainLog',
-  'OutboundNetworkConnection',
-  'Package2',
-  'PathAssistant',
-  'PermissionSet',
-  'PermissionSetGroup',
-  'PermissionSet',
-  'PlatformEventChannel',
-  'PostTemplate',
-  'Profile',
-  'QuickActionDefinition',
-  'RecordType',
-  'RecommendationStrategy',
-  'RemoteProxy',
-  'RestrictionRule',
-  'SchedulingRule',
-  'Scontrol',
-  'StaticResource',
-  'TransactionSecurityPolicy',
-  'ValidationRule',
-  'WebLink'
-];
\ No newline at end of file
+import { DataPointDefinition } from '../models/dataPoints';
+
+export const dataPointRegistry: DataPointDefinition[] = [
+  { Name: 'AIApplication', Label: 'AI Applications', Category: 'Einstein', Api: 'tooling', Feature: 'Einstein Prediction Builder' },
+  { Name: 'ApexClass', Label: 'Apex Classes', Category: 'Code', Api: 'tooling', NameField: 'Name' },
+  { Name: 'ApexExecutionOverlayAction', Label: 'Apex Debug Checkpoints', Category: 'Code', Api: 'tooling' },
+  { Name: 'ApexPage', Label: 'Visualforce Pages', Category: 'Code', Api: 'tooling', NameField: 'Name' },
+  { Name: 'ApexTrigger', Label: 'Apex Triggers', Category: 'Code', Api: 'tooling', NameField: 'Name' },
+  { Name: 'AuraDefinitionBundle', Label: 'Aura Components', Category: 'Code', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'AutoResponseRule', Label: 'Auto-Response Rules', Category: 'Automation', Api: 'tooling' },
+  { Name: 'BusinessProcessDefinition', Label: 'Business Processes', Category: 'Data Model', Api: 'tooling' },
+  { Name: 'BrandingSet', Label: 'Branding Sets', Category: 'User Interface', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'CleanDataService', Label: 'Clean Data Services', Category: 'Data Quality', Api: 'tooling', Feature: 'Data.com Clean' },
+  { Name: 'CleanRule', Label: 'Clean Rules', Category: 'Data Quality', Api: 'tooling', Feature: 'Data.com Clean' },
+  { Name: 'CustomApplication', Label: 'Apps', Category: 'User Interface', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'CustomField', Label: 'Custom Fields', Category: 'Data Model', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'CustomHttpHeader', Label: 'Custom HTTP Headers', Category: 'Integration', Api: 'tooling' },
+  { Name: 'CspTrustedSite', Label: 'CSP Trusted Sites', Category: 'Security', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'CustomObject', Label: 'Custom Objects', Category: 'Data Model', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'CustomTab', Label: 'Custom Tabs', Category: 'User Interface', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'DataIntegrationRecordPurchasePermission', Label: 'Data Integration Purchase Permissions', Category: 'Data Quality', Api: 'tooling', Feature: 'Data.com' },
+  { Name: 'DuplicateJobDefinition', Label: 'Duplicate Jobs', Category: 'Data Quality', Api: 'tooling', Feature: 'Duplicate Jobs (Performance or Unlimited Edition)' },
+  { Name: 'EmailTemplate', Label: 'Email Templates', Category: 'Email', Api: 'tooling', NameField: 'Name' },
+  { Name: 'ExternalDataSource', Label: 'External Data Sources', Category: 'Integration', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'FieldSet', Label: 'Field Sets', Category: 'Data Model', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'FlowDefinition', Label: 'Flows', Category: 'Automation', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'GlobalValueSet', Label: 'Global Value Sets', Category: 'Data Model', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'Group', Label: 'Groups and Queues', Category: 'Security', Api: 'tooling' },
+  { Name: 'HomePageLayout', Label: 'Home Page Layouts', Category: 'User Interface', Api: 'tooling' },
+  { Name: 'InboundNetworkConnection', Label: 'Inbound Private Connections', Category: 'Integration', Api: 'tooling', Feature: 'Private Connect', MinApiVersion: 50.0 },
+  { Name: 'LightningComponentBundle', Label: 'Lightning Web Components', Category: 'Code', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'Layout', Label: 'Page Layouts', Category: 'User Interface', Api: 'tooling', NameField: 'Name' },
+  { Name: 'LookupFilter', Label: 'Lookup Filters', Category: 'Data Model', Api: 'tooling' },
+  { Name: 'MatchingRule', Label: 'Matching Rules', Category: 'Data Quality', Api: 'tooling' },
+  { Name: 'MarketingAppExtension', Label: 'Marketing App Extensions', Category: 'Marketing', Api: 'tooling', Feature: 'Marketing Cloud Account Engagement' },
+  { Name: 'ModerationRule', Label: 'Moderation Rules', Category: 'Experience Cloud', Api: 'tooling', Feature: 'Experience Cloud' },
+  { Name: 'NamedCredential', Label: 'Named Credentials', Category: 'Integration', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'OpportunitySplitType', Label: 'Opportunity Split Types', Category: 'Sales', Api: 'tooling', Feature: 'Opportunity Splits' },
+  { Name: 'OrgDomainLog', Label: 'Org Domain Changes', Category: 'Security', Api: 'tooling', Feature: 'My Domain change logging' },
+  { Name: 'OutboundNetworkConnection', Label: 'Outbound Private Connections', Category: 'Integration', Api: 'tooling', Feature: 'Private Connect', MinApiVersion: 50.0 },
+  { Name: 'Package2', Label: 'Second-Generation Packages', Category: 'Packaging', Api: 'tooling', Feature: 'Dev Hub' },
+  { Name: 'PathAssistant', Label: 'Paths', Category: 'User Interface', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'PermissionSet', Label: 'Permission Sets', Category: 'Security', Api: 'tooling', NameField: 'Name' },
+  { Name: 'PermissionSetGroup', Label: 'Permission Set Groups', Category: 'Security', Api: 'tooling', NameField: 'DeveloperName', MinApiVersion: 48.0 },
+  { Name: 'PlatformEventChannel', Label: 'Platform Event Channels', Category: 'Integration', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'PostTemplate', Label: 'Approval Post Templates', Category: 'Automation', Api: 'tooling' },
+  { Name: 'Profile', Label: 'Profiles', Category: 'Security', Api: 'tooling', NameField: 'Name' },
+  { Name: 'QuickActionDefinition', Label: 'Quick Actions', Category: 'User Interface', Api: 'tooling', NameField: 'DeveloperName' },
+  { Name: 'RecordType', Label: 'Record Types', Category: 'Data Model', Api: 'tooling', NameField: 'Name' },
+  { Name: 'RecommendationStrategy', Label: 'Recommendation Strategies', Category: 'Einstein', Api: 'tooling', Feature: 'Einstein Next Best Action' },
+  { Name: 'RemoteProxy', Label: 'Remote Site Settings', Category: 'Integration', Api: 'tooling' },
+  { Name: 'RestrictionRule', Label: 'Restriction Rules', Category: 'Security', Api: 'tooling', MinApiVersion: 50.0 },
+  { Name: 'SchedulingRule', Label: 'Scheduling Rules', Category: 'Scheduler', Api: 'tooling', Feature: 'Salesforce Scheduler' },
+  { Name: 'Scontrol', Label: 'S-Controls', Category: 'Code', Api: 'tooling', Feature: 'S-Controls (legacy)' },
+  { Name: 'StaticResource', Label: 'Static Resources', Category: 'Code', Api: 'tooling', NameField: 'Name' },
+  { Name: 'TransactionSecurityPolicy', Label: 'Transaction Security Policies', Category: 'Security', Api: 'tooling', Feature: 'Event Monitoring' },
+  { Name: 'ValidationRule', Label: 'Validation Rules', Category: 'Data Model', Api: 'tooling', NameField: 'ValidationName' },
+  { Name: 'WebLink', Label: 'Custom Buttons and Links', Category: 'User Interface', Api: 'tooling', NameField: 'Name' }
+];
+
+export const dataPoints = dataPointRegistry.map(dataPoint => dataPoint.Name);
+
+export const dataPointNameFields: { [dataPoint: string]: string } = Object.fromEntries(
+  dataPointRegistry.filter(dataPoint => dataPoint.NameField).map(dataPoint => [dataPoint.Name, dataPoint.NameField])
+);
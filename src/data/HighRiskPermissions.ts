@@ -0,0 +1,9 @@
+// Keyed by the PermissionSet field name without its 'Permissions' prefix.
+export const highRiskPermissions: { [permission: string]: string } = {
+  'ModifyAllData': 'Modify All Data',
+  'ViewAllData': 'View All Data',
+  'AuthorApex': 'Author Apex',
+  'ManageUsers': 'Manage Users',
+  'CustomizeApplication': 'Customize Application',
+  'ApiEnabled': 'API Enabled'
+};
@@ -0,0 +1,54 @@
+export const limitDescriptions: { [limitName: string]: string } = {
+  'ActiveScratchOrgs': 'Scratch orgs that can be active at the same time for this Dev Hub',
+  'AnalyticsExternalDataSizeMB': 'Maximum amount of data in megabytes that can be uploaded externally to CRM Analytics in a rolling 24-hour period',
+  'ConcurrentAsyncGetReportInstances': 'Concurrent asynchronous report runs through the Reports and Dashboards API',
+  'ConcurrentEinsteinDataInsightsStoryCreation': 'Concurrent Einstein Data Insights story creations',
+  'ConcurrentEinsteinDiscoveryStoryCreation': 'Concurrent Einstein Discovery story creations',
+  'ConcurrentSyncReportRuns': 'Concurrent synchronous report runs through the Reports and Dashboards API',
+  'DailyAnalyticsDataflowJobExecutions': 'CRM Analytics dataflow job executions in a rolling 24-hour period',
+  'DailyAnalyticsUploadedFilesSizeMB': 'Size in megabytes of files uploaded to CRM Analytics in a rolling 24-hour period',
+  'DailyApiRequests': 'API requests in a rolling 24-hour period',
+  'DailyAsyncApexExecutions': 'Asynchronous Apex method executions (batch Apex, future methods, queueable Apex and scheduled Apex) in a rolling 24-hour period',
+  'DailyAsyncApexTests': 'Asynchronous Apex test executions in a rolling 24-hour period',
+  'DailyBulkApiBatches': 'Bulk API batches in a rolling 24-hour period',
+  'DailyBulkV2QueryFileStorageMB': 'Storage in megabytes for Bulk API 2.0 query results in a rolling 24-hour period',
+  'DailyBulkV2QueryJobs': 'Bulk API 2.0 query jobs in a rolling 24-hour period',
+  'DailyDeliveredPlatformEvents': 'High-volume platform event notifications delivered to CometD clients in a rolling 24-hour period',
+  'DailyDurableGenericStreamingApiEvents': 'Generic events delivered to clients in the last 24 hours with durable streaming',
+  'DailyDurableStreamingApiEvents': 'PushTopic events delivered to clients in the last 24 hours with durable streaming',
+  'DailyEinsteinDataInsightsStoryCreation': 'Einstein Data Insights story creations in a rolling 24-hour period',
+  'DailyEinsteinDiscoveryPredictAPICalls': 'Einstein Discovery prediction API calls in a rolling 24-hour period',
+  'DailyEinsteinDiscoveryPredictionsByCDC': 'Einstein Discovery predictions triggered by Change Data Capture in a rolling 24-hour period',
+  'DailyEinsteinDiscoveryStoryCreation': 'Einstein Discovery story creations in a rolling 24-hour period',
+  'DailyFunctionsApiCallLimit': 'API calls made by Salesforce Functions in a rolling 24-hour period',
+  'DailyGenericStreamingApiEvents': 'Generic events delivered to clients in the last 24 hours',
+  'DailyScratchOrgs': 'Scratch orgs that can be created in a rolling 24-hour period for this Dev Hub',
+  'DailyStandardVolumePlatformEvents': 'Standard-volume platform events delivered to CometD clients in a rolling 24-hour period',
+  'DailyStreamingApiEvents': 'PushTopic events delivered to clients in the last 24 hours',
+  'DailyWorkflowEmails': 'Workflow and approval emails sent in a rolling 24-hour period',
+  'DataStorageMB': 'Data storage in megabytes',
+  'DurableStreamingApiConcurrentClients': 'Concurrent CometD clients subscribed with durable streaming',
+  'FileStorageMB': 'File storage in megabytes',
+  'HourlyAsyncReportRuns': 'Asynchronous report runs through the Reports and Dashboards API per hour',
+  'HourlyDashboardRefreshes': 'Dashboard refreshes through the Reports and Dashboards API per hour',
+  'HourlyDashboardResults': 'Dashboard results retrieved through the Reports and Dashboards API per hour',
+  'HourlyDashboardStatuses': 'Dashboard status requests through the Reports and Dashboards API per hour',
+  'HourlyLongTermIdMapping': 'Long-term external ID mappings created per hour',
+  'HourlyManagedContentPublicRequests': 'Public requests to CMS delivery APIs per hour',
+  'HourlyODataCallout': 'OData callouts of Salesforce Connect per hour',
+  'HourlyPublishedPlatformEvents': 'High-volume platform event notifications published per hour',
+  'HourlyPublishedStandardVolumePlatformEvents': 'Standard-volume platform event notifications published per hour',
+  'HourlyShortTermIdMapping': 'Short-term external ID mappings created per hour',
+  'HourlySyncReportRuns': 'Synchronous report runs through the Reports and Dashboards API per hour',
+  'HourlyTimeBasedWorkflow': 'Time-based workflow rule actions processed per hour',
+  'MassEmail': 'Mass emails that can be sent to external email addresses today',
+  'MonthlyEinsteinDiscoveryStoryCreation': 'Einstein Discovery story creations per month',
+  'MonthlyPlatformEventsUsageEntitlement': 'Platform event notifications delivered per month under the usage-based entitlement',
+  'Package2VersionCreates': 'Package versions that can be created in a rolling 24-hour period',
+  'Package2VersionCreatesWithoutValidation': 'Package versions created without validation in a rolling 24-hour period',
+  'PermissionSets': 'Permission sets and their creation limit',
+  'PrivateConnectOutboundCalloutHourlyLimitMB': 'Data transferred in megabytes through Private Connect outbound callouts per hour',
+  'PublishCallbackUsageInApex': 'Platform event publish callbacks in Apex',
+  'SingleEmail': 'Single emails that can be sent to external email addresses today',
+  'StreamingApiConcurrentClients': 'Concurrent CometD clients subscribed to PushTopic and generic streaming channels'
+};
@@ -0,0 +1,59 @@
+import fs = require('fs');
+import { toCsv } from '../libs/Csv';
+import { LicenseUsage, OrgSummary } from '../models/summary';
+import { SummaryExporter } from './SummaryExporter';
+
+// Writes one CSV file per section that is present in the summary.
+export class CsvExporter implements SummaryExporter {
+  public async export(summary: OrgSummary, directory: string): Promise<void> {
+    const files: { [fileName: string]: string } = {};
+    if (summary.Metadata) {
+      files['metadata.csv'] = toCsv(['DataPoint', 'Total', 'LastModifiedDate'],
+        Object.keys(summary.Metadata).sort().map(name => [name, summary.Metadata[name].Total, summary.Metadata[name].LastModifiedDate]));
+    }
+    if (summary.HealthCheck) {
+      files['healthcheck.csv'] = toCsv(['SettingGroup', 'Setting', 'RiskType', 'SettingRiskCategory', 'OrgValue'],
+        summary.HealthCheck.Details.map(risk => [risk.SettingGroup, risk.Setting, risk.RiskType, risk.SettingRiskCategory, risk.OrgValue]));
+    }
+    if (summary.Security) {
+      files['security.csv'] = toCsv(['Name', 'Label', 'Type', 'Permissions', 'ActiveAssignees', 'PermissionSetGroups'],
+        summary.Security.Details.map(grant => [grant.Name, grant.Label, grant.Type, grant.Permissions.join(';'), grant.ActiveAssignees, grant.PermissionSetGroups.join(';')]));
+    }
+    if (summary.Limits) {
+      files['limits.csv'] = toCsv(['Name', 'Application', 'Max', 'Remaining', 'Usage', 'UsagePercentage', 'Status'],
+        summary.Limits.Details.flatMap(limit => [limit, ...(limit.Applications ?? [])].map(entry =>
+          [limit.Name, entry === limit ? '' : entry.Name, entry.Max, entry.Remaining, entry.Usage, entry.UsagePercentage, entry.Status])));
+    }
+    if (summary.Users) {
+      const licenses = [
+        ...summary.Users.UserLicenses.map(license => ['UserLicense', license]),
+        ...summary.Users.PermissionSetLicenses.map(license => ['PermissionSetLicense', license])
+      ] as [string, LicenseUsage][];
+      files['licenses.csv'] = toCsv(['Type', 'Name', 'Label', 'Status', 'Total', 'Used', 'Remaining', 'UsagePercentage', 'ExpirationDate'],
+        licenses.map(([type, license]) => [type, license.Name, license.Label, license.Status, license.Total, license.Used, license.Remaining, license.UsagePercentage, license.ExpirationDate]));
+    }
+    if (summary.Data) {
+      files['recordcounts.csv'] = toCsv(['Object', 'Custom', 'Records', 'PreviousRecords', 'Growth', 'GrowthPercentage'],
+        summary.Data.Details.map(objectCount => [objectCount.Name, objectCount.Custom, objectCount.Records, objectCount.PreviousRecords, objectCount.Growth, objectCount.GrowthPercentage]));
+    }
+    if (summary.Code) {
+      files['coderisks.csv'] = toCsv(['File', 'Line', 'Column', 'Rule', 'Severity', 'NormalizedSeverity', 'Category', 'Engine', 'Description', 'URL'],
+        summary.Code.RiskDetails.map(risk => [risk.File, risk.Line, risk.Column, risk.Rule, risk.Severity, risk['Normalized Severity'], risk.Category, risk.Engine, risk.Description, risk.URL]));
+    }
+    if (summary.Tests) {
+      files['testresults.csv'] = toCsv(['ClassName', 'MethodName', 'Outcome', 'RunTime', 'Message', 'StackTrace'],
+        (summary.Tests.MethodResults ?? []).map(result => [result.ClassName, result.MethodName, result.Outcome, result.RunTime, result.Message, result.StackTrace]));
+      files['apexcoverage.csv'] = toCsv(['Name', 'CoveragePercentage'],
+        summary.Tests.ApexCoverageDetails.Details.map(coverage => [coverage.Name, coverage.CoveragePercentage]));
+      files['flowcoverage.csv'] = toCsv(['Name', 'CoveragePercentage'],
+        summary.Tests.FlowCoverageDetails.Details.map(coverage => [coverage.Name, coverage.CoveragePercentage]));
+    }
+    if (summary.Errors && summary.Errors.length > 0) {
+      files['errors.csv'] = toCsv(['Section', 'DataPoint', 'Code', 'Unsupported', 'Message'],
+        summary.Errors.map(error => [error.Section, error.DataPoint, error.Code, error.Unsupported, error.Message]));
+    }
+    for (const fileName of Object.keys(files)) {
+      fs.writeFileSync(`${directory}/${fileName}`, files[fileName], 'utf8');
+    }
+  }
+}
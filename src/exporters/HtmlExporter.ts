@@ -0,0 +1,10 @@
+import fs = require('fs');
+import { renderHtmlReport } from '../libs/RenderHtmlReport';
+import { OrgSummary } from '../models/summary';
+import { SummaryExporter } from './SummaryExporter';
+
+export class HtmlExporter implements SummaryExporter {
+  public async export(summary: OrgSummary, directory: string): Promise<void> {
+    fs.writeFileSync(`${directory}/orgsummary.html`, renderHtmlReport(summary), 'utf8');
+  }
+}
@@ -0,0 +1,51 @@
+import fs = require('fs');
+import { OrgSummary } from '../models/summary';
+import { SummaryExporter } from './SummaryExporter';
+
+// Reports every Apex test method as a test case and every code risk as a failed test case.
+export class JUnitExporter implements SummaryExporter {
+  public async export(summary: OrgSummary, directory: string): Promise<void> {
+    fs.writeFileSync(`${directory}/junit.xml`, renderJUnit(summary), 'utf8');
+  }
+}
+
+export function renderJUnit(summary: OrgSummary): string {
+  const suites: string[] = [];
+  if (summary.Tests) {
+    const results = summary.Tests.MethodResults ?? [];
+    const failures = results.filter(result => result.Outcome !== 'Pass' && result.Outcome !== 'Skip');
+    const skipped = results.filter(result => result.Outcome === 'Skip');
+    const cases = results.map(result => {
+      const attributes = `classname="${escapeXml(result.ClassName)}" name="${escapeXml(result.MethodName)}" time="${(result.RunTime / 1000).toFixed(3)}"`;
+      if (result.Outcome === 'Pass') {
+        return `    <testcase ${attributes}/>`;
+      }
+      if (result.Outcome === 'Skip') {
+        return `    <testcase ${attributes}>\n      <skipped/>\n    </testcase>`;
+      }
+      return `    <testcase ${attributes}>\n      <failure message="${escapeXml(result.Message)}" type="${escapeXml(result.Outcome)}">${escapeXml(result.StackTrace)}</failure>\n    </testcase>`;
+    });
+    suites.push(renderSuite('Apex Tests', results.length, failures.length, skipped.length, cases));
+  }
+  if (summary.Code) {
+    const cases = summary.Code.RiskDetails.map(risk => {
+      const attributes = `classname="${escapeXml(risk.File)}" name="${escapeXml(`${risk.Rule} (line ${risk.Line})`)}"`;
+      return `    <testcase ${attributes}>\n      <failure message="${escapeXml(risk.Description)}" type="${escapeXml(risk.Category)}">${escapeXml(risk.URL)}</failure>\n    </testcase>`;
+    });
+    suites.push(renderSuite('Code Risks', cases.length, cases.length, 0, cases));
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="Org Summary ${escapeXml(summary.OrgId)}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+function renderSuite(name: string, tests: number, failures: number, skipped: number, cases: string[]): string {
+  return `  <testsuite name="${escapeXml(name)}" tests="${tests}" failures="${failures}" skipped="${skipped}">\n${cases.join('\n')}\n  </testsuite>`;
+}
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,99 @@
+import fs = require('fs');
+import { OrgSummary } from '../models/summary';
+import { SummaryExporter } from './SummaryExporter';
+
+export class MarkdownExporter implements SummaryExporter {
+  public async export(summary: OrgSummary, directory: string): Promise<void> {
+    fs.writeFileSync(`${directory}/orgsummary.md`, renderMarkdown(summary), 'utf8');
+  }
+}
+
+export function renderMarkdown(summary: OrgSummary): string {
+  const lines = [
+    `# Org Summary ${summary.OrgId}`,
+    '',
+    `${summary.Username} · ${summary.OrgInstanceURL} · Result: **${summary.ResultState}**`,
+    ''
+  ];
+  if (summary.Tests) {
+    const tests = summary.Tests;
+    lines.push('## Tests', '');
+    lines.push(...renderTable(['Outcome', 'Completed', 'Failed', 'Apex Coverage', 'Flow Coverage'], [[
+      tests.TestOutcome, tests.TestMethodsCompleted, tests.TestMethodsFailed,
+      formatPercentage(tests.ApexCoverageDetails.Total), formatPercentage(tests.FlowCoverageDetails.Total)
+    ]]));
+    const failures = Object.keys(tests.FailuresByClass ?? {}).sort()
+      .flatMap(className => tests.FailuresByClass[className].map(failure => `- \`${className}.${failure.MethodName}\`: ${failure.Message}`));
+    if (failures.length > 0) {
+      lines.push('', '**Failures**', '', ...failures);
+    }
+    lines.push('');
+  }
+  if (summary.Code) {
+    lines.push('## Code', '');
+    lines.push(...renderTable(['Lines of Code', 'Risks', 'Risks per Line'], [[summary.Code.LinesOfCode, summary.Code.Risks, formatRatio(summary.Code.RisksPerLineRatio)]]), '');
+    const risksBySeverity = summary.Code.RisksBySeverity ?? {};
+    if (Object.keys(risksBySeverity).length > 0) {
+      lines.push(...renderTable(Object.keys(risksBySeverity), [Object.values(risksBySeverity)]), '');
+    }
+    if ((summary.Code.Hotspots ?? []).length > 0) {
+      lines.push('**Hotspots**', '', ...summary.Code.Hotspots.map(hotspot => `- \`${hotspot.File}\`: ${hotspot.Risks} risks`), '');
+    }
+  }
+  if (summary.HealthCheck) {
+    const healthCheck = summary.HealthCheck;
+    lines.push('## Health Check', '');
+    lines.push(...renderTable(['Score', 'Criteria', 'Compliant', 'Risks'], [[healthCheck.Score, healthCheck.Criteria, healthCheck.Compliant, healthCheck.Risks]]), '');
+  }
+  if (summary.Security) {
+    const security = summary.Security;
+    lines.push('## Security', '');
+    lines.push(`Active users with high-risk permissions: **${security.UsersWithHighRiskPermissions}**`, '');
+    lines.push(...renderTable(['Permission', 'Profiles', 'Permission Sets', 'Permission Set Groups', 'Active Users'],
+      Object.values(security.Permissions).map(permission => [permission.Label, permission.Profiles, permission.PermissionSets, permission.PermissionSetGroups, permission.ActiveUsers])), '');
+  }
+  if (summary.Limits) {
+    const limits = summary.Limits;
+    lines.push('## Limits', '');
+    lines.push(...renderTable(['Applicable', 'Reached', 'Unattained', 'Warning', 'Critical'],
+      [[limits.Applicable, limits.Reached, limits.Unattained, limits.Warning ?? 0, limits.Critical ?? 0]]), '');
+  }
+  if (summary.Users) {
+    const users = summary.Users;
+    lines.push('## Users', '');
+    lines.push(...renderTable(['Active', 'Inactive', 'Frozen', `No Login in ${users.InactiveDays} Days`, 'Never Logged In'],
+      [[users.Active, users.Inactive, users.Frozen, users.NotLoggedInRecently, users.NeverLoggedIn]]), '');
+    lines.push(...renderTable(['License', 'Total', 'Used', 'Remaining'],
+      [...users.UserLicenses, ...users.PermissionSetLicenses].filter(license => license.Total > 0).map(license => [license.Label, license.Total, license.Used, license.Remaining])), '');
+  }
+  if (summary.Data) {
+    const data = summary.Data;
+    lines.push('## Data', '');
+    lines.push(...renderTable(['Records', 'Record Growth', 'Data Storage MB', 'File Storage MB'],
+      [[data.TotalRecords, data.RecordGrowth ?? '', `${data.DataStorage.UsedMB} / ${data.DataStorage.MaxMB}`, `${data.FileStorage.UsedMB} / ${data.FileStorage.MaxMB}`]]), '');
+    lines.push(...renderTable(['Object', 'Records', 'Growth'], data.Largest.map(objectCount => [objectCount.Name, objectCount.Records, objectCount.Growth ?? ''])), '');
+  }
+  if (summary.Metadata) {
+    lines.push('## Metadata', '');
+    lines.push(...renderTable(['Type', 'Total', 'Last Modified'],
+      Object.keys(summary.Metadata).sort().map(name => [name, summary.Metadata[name].Total, summary.Metadata[name].LastModifiedDate ?? ''])), '');
+  }
+  if (summary.Errors && summary.Errors.length > 0) {
+    lines.push('## Errors', '');
+    lines.push(...summary.Errors.map(error => `- ${error.Section}${error.DataPoint ? ` (${error.DataPoint})` : ''}: ${error.Code}`), '');
+  }
+  return lines.join('\n');
+}
+
+function renderTable(headers: string[], rows: unknown[][]): string[] {
+  const renderRow = (cells: unknown[]) => `| ${cells.map(cell => String(cell ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')).join(' | ')} |`;
+  return [renderRow(headers), renderRow(headers.map(() => '---')), ...rows.map(renderRow)];
+}
+
+function formatPercentage(value: number | 'N/A'): string {
+  return value === 'N/A' || isNaN(Number(value)) ? 'N/A' : `${Number(value).toFixed(2)}%`;
+}
+
+function formatRatio(value: number): string {
+  return typeof value !== 'number' || isNaN(value) ? 'N/A' : value.toFixed(4);
+}
@@ -0,0 +1,49 @@
+import fs = require('fs');
+import { OrgSummary, ProblemInfo } from '../models/summary';
+import { SummaryExporter } from './SummaryExporter';
+
+const sarifLevels: { [normalizedSeverity: string]: string } = { '1': 'error', '2': 'warning', '3': 'note' };
+
+// Writes the code risks as a SARIF 2.1.0 log with one run per scanner engine.
+export class SarifExporter implements SummaryExporter {
+  public async export(summary: OrgSummary, directory: string): Promise<void> {
+    fs.writeFileSync(`${directory}/orgsummary.sarif`, JSON.stringify(toSarif(summary), null, 2), 'utf8');
+  }
+}
+
+export function toSarif(summary: OrgSummary): object {
+  const risksByEngine = new Map<string, ProblemInfo[]>();
+  for (const risk of summary.Code?.RiskDetails ?? []) {
+    const engine = risk.Engine || 'unknown';
+    risksByEngine.set(engine, [...(risksByEngine.get(engine) ?? []), risk]);
+  }
+  const runs = [...risksByEngine.entries()].map(([engine, risks]) => {
+    const rules = [...new Map(risks.map(risk => [risk.Rule, risk])).values()].map(risk => ({
+      id: risk.Rule,
+      helpUri: risk.URL || undefined,
+      properties: { category: risk.Category }
+    }));
+    return {
+      tool: { driver: { name: engine, rules } },
+      results: risks.map(risk => ({
+        ruleId: risk.Rule,
+        level: sarifLevels[String(risk['Normalized Severity'])] ?? 'warning',
+        message: { text: risk.Description },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: risk.File },
+            region: {
+              startLine: Number(risk.Line) || 1,
+              startColumn: Number(risk.Column) || 1
+            }
+          }
+        }]
+      }))
+    };
+  });
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs
+  };
+}
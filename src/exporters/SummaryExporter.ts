@@ -0,0 +1,5 @@
+import { OrgSummary } from '../models/summary';
+
+export interface SummaryExporter {
+  export(summary: OrgSummary, directory: string): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import axios from 'axios';
+import { OrgSummary } from '../models/summary';
+import { renderMarkdown } from './MarkdownExporter';
+import { SummaryExporter } from './SummaryExporter';
+
+export interface WebhookOptions {
+  headers?: { [header: string]: string };
+  format?: 'json' | 'markdown';
+}
+
+// Posts the summary, as JSON or as a Markdown digest, to an HTTP endpoint.
+export class WebhookExporter implements SummaryExporter {
+  public constructor(private readonly url: string, private readonly options: WebhookOptions = {}) {}
+
+  public async export(summary: OrgSummary): Promise<void> {
+    if (this.options.format === 'markdown') {
+      await axios.post(this.url, renderMarkdown(summary), {
+        headers: { 'Content-Type': 'text/markdown', ...this.options.headers }
+      });
+    } else {
+      await axios.post(this.url, summary, {
+        headers: { 'Content-Type': 'application/json', ...this.options.headers }
+      });
+    }
+  }
+}
@@ -1,34 +1,105 @@
-import { execSync } from 'node:child_process';
 import fs = require('fs');
 import * as jsforce from 'jsforce';
 import path from 'path';
-import axios from 'axios';
 import parse = require('csv-parse/lib/sync');
-import { ApexClassCoverage, CodeDetails, ComponentSummary, FlowCoverage, HealthCheckRisk, HealthCheckSummary, Limit, ProblemInfo } from './models/summary';
-import { countCodeLines } from './libs/CountCodeLines';
-import { dataPoints } from './data/DataPoints';
-import { CodeAnalysis, LimitSummary, TestSummary } from './models/summary';
+import { ApexClassCoverage, CodeDetails, ComponentSummary, DataSummary, FlowCoverage, HealthCheckRisk, HealthCheckSummary, Limit, OrgSummary, PreprocessedResult, ProblemInfo, SectionProvenance, SecuritySummary, SummaryError, SummaryProvenance, TestMethodResult, UserSummary } from './models/summary';
+import { OrgSummaryResult, SummarizeOrgsResult } from './models/portfolio';
+import { CustomDataPoint, DataPointTarget } from './models/dataPoints';
+import { ProgressEvent } from './models/progress';
+import { countCodeLines, sumLinesOfCode } from './libs/CountCodeLines';
+import { dataPointNameFields, dataPointRegistry, dataPoints } from './data/DataPoints';
+import { limitDescriptions } from './data/LimitDescriptions';
+import { highRiskPermissions } from './data/HighRiskPermissions';
+import { mapWithConcurrency } from './libs/Concurrency';
+import { defaultLimitThresholds, getLimitStatus, LimitThresholds } from './libs/LimitStatus';
+import { compareSummaries } from './libs/CompareSummaries';
+import { AbortableCommandRunner, CliCommandRunner, CommandRunner } from './libs/CommandRunner';
+import { AxiosRestClient, RestClient } from './libs/RestClient';
+import { renderHtmlReport } from './libs/RenderHtmlReport';
+import { evaluateGates, loadGatePolicy } from './libs/EvaluateGates';
+import { inventoryToCsv } from './libs/InventoryCsv';
+import { Logger, silentLogger } from './libs/Logger';
+import { createSectionSignal, raceAbort, sleep } from './libs/Cancellation';
+import { parseScannerJson, summarizeRisks, toPreprocessedResult } from './libs/ScannerResults';
+import { findMetadataFolders, getPackageDirectories } from './libs/SfdxProject';
+import { highRiskPermissionFilter, summarizePermissions } from './libs/SummarizePermissions';
+import { defaultInactiveDays, sortLicenseUsage, toLicenseUsage } from './libs/SummarizeUsers';
+import { defaultTopObjects, summarizeData } from './libs/SummarizeData';
+import { activeFlowType, carriedForward, carryDataPointForward, codeMetadataTypes, CodeComponents, findChangedComponents, hasFileLineCounts, hasTestedCodeChanged, isDataPointUnchanged, mergeCodeAnalysis, toRetrieveMetadata } from './libs/Incremental';
+import { buildCustomQuery, loadCustomDataPoints, summarizeCustomDataPoint } from './libs/CustomDataPoints';
+import { findSkippedDataPoints } from './libs/DataPointPreflight';
+import { buildPortfolio } from './libs/BuildPortfolio';
+import { loadSummary, migrateSummary, summarySchemaVersion, validateSummary } from './libs/LoadSummary';
+import { toNumber } from './libs/ToNumber';
+import { SummaryExporter } from './exporters/SummaryExporter';
+import { CsvExporter } from './exporters/CsvExporter';
+import { HtmlExporter } from './exporters/HtmlExporter';
+import { JUnitExporter } from './exporters/JUnitExporter';
+import { MarkdownExporter } from './exporters/MarkdownExporter';
+import { SarifExporter } from './exporters/SarifExporter';
+import { WebhookExporter, WebhookOptions } from './exporters/WebhookExporter';
+import { getCoverageSeries, getLatestSummary, getMetadataSeries, getSeries, indexSummaries, listSummaries } from './libs/SummaryHistory';
 import * as fse from 'fs-extra';
 
+export { OrgSummary, compareSummaries, renderHtmlReport, evaluateGates, loadGatePolicy, inventoryToCsv, buildPortfolio };
+export { loadSummary, migrateSummary, validateSummary, summarySchemaVersion, loadCustomDataPoints, dataPointRegistry, Logger, silentLogger };
+export { SummaryExporter, CsvExporter, HtmlExporter, JUnitExporter, MarkdownExporter, SarifExporter, WebhookExporter, WebhookOptions };
+export { indexSummaries, listSummaries, getLatestSummary, getSeries, getCoverageSeries, getMetadataSeries };
+export * from './models/diff';
+export * from './models/gates';
+export * from './models/history';
+export * from './models/portfolio';
+export * from './models/dataPoints';
+export * from './models/progress';
+export * from './libs/CommandRunner';
+export * from './libs/RestClient';
+
+const defaultApiVersion = '59.0';
+
 export interface flags {
     outputdirectory?: string;
     metadata?: string;
     keepdata?: boolean;
     healthcheck?: boolean;
+    security?: boolean;
     limits?: boolean;
+    users?: boolean;
+    inactivedays?: number;
+    data?: boolean;
+    topobjects?: number;
     codeanalysis?: boolean;
     tests?: boolean;
     targetusername?: string;
+    runner?: CommandRunner;
+    concurrency?: number;
+    querytimeout?: number;
+    htmlreport?: boolean;
+    slowesttests?: number;
+    inventory?: boolean;
+    exporters?: SummaryExporter[];
+    apiversion?: string;
+    limitwarning?: number;
+    limitcritical?: number;
+    orgconcurrency?: number;
+    customdatapoints?: string | CustomDataPoint[];
+    logger?: Logger;
+    onprogress?: (event: ProgressEvent) => void;
+    signal?: AbortSignal;
+    sectiontimeouts?: { [section: string]: number };
+    hotspots?: number;
+    sourcepath?: string;
+    previoussummary?: string | OrgSummary;
 }
 
-export async function buildBaseSummary(orgAlias?: string, info?: OrgInfo): Promise<OrgSummary> {
+export async function buildBaseSummary(orgAlias?: string, info?: OrgInfo, runner: CommandRunner = new CliCommandRunner()): Promise<OrgSummary> {
     const currentDate = new Date().toISOString();
     const timestamp = Date.now().toString();
     if (!info) {
-        info = getOrgInfo(orgAlias);
+        info = await getOrgInfo(orgAlias, runner);
     }
     
     const baseSummary: OrgSummary = {
+        SchemaVersion: summarySchemaVersion,
         Timestamp: timestamp,
         ResultState: 'Pending',
         OrgId: (info && info.orgId) || '',
@@ -40,14 +111,25 @@ export async function buildBaseSummary(orgAlias?: string, info?: OrgInfo): Promi
 
 export async function summarizeOrg(flags: flags, orgSummary?: OrgSummary): Promise<OrgSummary> {
     
-    const info = getOrgInfo(flags.targetusername);
-    const baseSummary = orgSummary || (await buildBaseSummary(flags.targetusername, info));
+    const runner: CommandRunner = flags.runner ?? new CliCommandRunner();
+    const logger = flags.logger ?? console;
+    const emit = (event: ProgressEvent) => {
+        try {
+            flags.onprogress?.(event);
+        } catch (error) {
+            logger.warn('Error in progress listener:', error.message);
+        }
+    };
+    const info = await getOrgInfo(flags.targetusername, runner, logger);
+    const restClient = runner.createRestClient?.(info.instanceUrl, info.accessToken) ?? new AxiosRestClient(info.instanceUrl, info.accessToken);
+    const baseSummary = await buildBaseSummary(flags.targetusername, info, runner);
     let selectedDataPoints;
     if(flags.metadata === ""){
         selectedDataPoints = undefined;
     } else {
         selectedDataPoints = flags.metadata ? flags.metadata.split(',') : dataPoints;
     }
+    const customDataPoints = typeof flags.customdatapoints === 'string' ? loadCustomDataPoints(flags.customdatapoints) : (flags.customdatapoints ?? []);
     let orgSummaryDirectory;
     if(!flags.outputdirectory){
         orgSummaryDirectory = __dirname + `/${info.orgId}/${baseSummary.Timestamp}`; 
@@ -57,111 +139,299 @@ export async function summarizeOrg(flags: flags, orgSummary?: OrgSummary): Promi
     if (!fs.existsSync(orgSummaryDirectory)) {
         fs.mkdirSync(orgSummaryDirectory, { recursive: true });
     }    
-    const errors: any[] = [];
-
-    if (flags.healthcheck) {
+    const previousSummary = typeof flags.previoussummary === 'string' ? loadSummary(flags.previoussummary) : flags.previoussummary;
+    if (previousSummary && previousSummary.OrgId !== info.orgId) {
+        throw new Error(`Previous summary belongs to org ${previousSummary.OrgId}, not ${info.orgId}`);
+    }
+    // Anything modified after the previous run started is collected again.
+    const since = previousSummary ? Number(previousSummary.Timestamp) : undefined;
+    const provenance: SummaryProvenance = previousSummary ? { PreviousTimestamp: previousSummary.Timestamp, Sections: {} } : { Sections: {} };
+    const collected = (): SectionProvenance => ({ Source: 'Collected', Timestamp: baseSummary.Timestamp });
+    // Each section queries the components with its own signal, so a section that times out cannot cancel the detection of another.
+    const detectCodeChanges = async <T>(detect: (components: CodeComponents) => T, signal: AbortSignal): Promise<T | undefined> => {
         try {
-            baseSummary.HealthCheck = getHealthCheckScore(orgSummaryDirectory, flags.targetusername);
+            return detect(await queryCodeComponents(restClient, flags.apiversion, signal));
+        } catch (error) {
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+            logger.warn('Unable to detect code changes since the previous summary, collecting the section again:', error.message);
+            return undefined;
+        }
+    };
+    const errors: SummaryError[] = [];
+    const attemptedSections: string[] = [];
+    const completedSections: string[] = [];
+    // The '*' key sets the timeout of every section that has no entry of its own.
+    const runSection = async (section: string, collect: (sectionRunner: CommandRunner, signal: AbortSignal) => Promise<boolean | void>) => {
+        attemptedSections.push(section);
+        emit({ Type: 'SectionStarted', Section: section });
+        const sectionSignal = createSectionSignal(section, flags.signal, flags.sectiontimeouts?.[section] ?? flags.sectiontimeouts?.['*']);
+        try {
+            if (await raceAbort(collect(new AbortableCommandRunner(runner, sectionSignal.signal), sectionSignal.signal), sectionSignal.signal) !== false) {
+                completedSections.push(section);
+            }
         } catch (error) {
-            errors.push({ getHealthCheckScoreError: error.message });
+            const summaryError = toSummaryError(section, error);
+            errors.push(summaryError);
+            emit({ Type: 'Error', Error: summaryError });
+        } finally {
+            sectionSignal.dispose();
         }
+        emit({ Type: 'SectionFinished', Section: section, Completed: completedSections.includes(section) });
+    };
+    const sections: Promise<void>[] = [];
+
+    if (flags.healthcheck) {
+        sections.push(runSection('HealthCheck', async (sectionRunner) => {
+            baseSummary.HealthCheck = await getHealthCheckScore(orgSummaryDirectory, flags.targetusername, sectionRunner, flags.querytimeout);
+            provenance.Sections.HealthCheck = collected();
+        }));
+    }
+
+    if (flags.security) {
+        sections.push(runSection('Security', async (sectionRunner, signal) => {
+            baseSummary.Security = await getSecuritySummary(restClient, flags.apiversion, signal);
+            provenance.Sections.Security = collected();
+        }));
     }
 
     if (flags.limits) {
-        try {
-            const limits = await checkLimits(info.instanceUrl, info.accessToken);
+        sections.push(runSection('Limits', async (sectionRunner, signal) => {
+            const limits = await checkLimits(restClient, flags.apiversion, {
+                Warning: flags.limitwarning ?? defaultLimitThresholds.Warning,
+                Critical: flags.limitcritical ?? defaultLimitThresholds.Critical
+            }, logger, signal);
             const Applicable: number = limits ? limits.length : 0;
-            const Reached: number = limits ? limits.filter((limit) => limit.Remaining === 0).length : 0;
+            const Reached: number = limits ? limits.filter((limit) => limit.UsagePercentage !== 'N/A' && Number(limit.Remaining) <= 0).length : 0;
             baseSummary.Limits = {
                 Applicable,
                 Reached,
                 'Unattained': (Applicable - Reached),
+                'Warning': limits.filter((limit) => limit.Status === 'Warning').length,
+                'Critical': limits.filter((limit) => limit.Status === 'Critical').length,
                 'Details': limits
             };
-        } catch (error) {
-            errors.push({ checkLimitsError: error.message });
-        }
+            provenance.Sections.Limits = collected();
+        }));
+    }
+
+    if (flags.users) {
+        sections.push(runSection('Users', async (sectionRunner, signal) => {
+            baseSummary.Users = await getUserSummary(restClient, flags.apiversion, flags.inactivedays ?? defaultInactiveDays, signal);
+            provenance.Sections.Users = collected();
+        }));
+    }
+
+    if (flags.data) {
+        sections.push(runSection('Data', async (sectionRunner, signal) => {
+            baseSummary.Data = await getDataSummary(restClient, flags.apiversion, flags.topobjects ?? defaultTopObjects, previousSummary?.Data ? previousSummary : orgSummary, signal);
+            provenance.Sections.Data = collected();
+        }));
     }
 
     if (flags.codeanalysis) {
-        try {
-            process.chdir(orgSummaryDirectory);
-            execSync('sfdx force:project:create -x -n tempSFDXProject');
-            process.chdir('./tempSFDXProject');
-            const retrieveCommand = flags.targetusername ? `sf project retrieve start --metadata ApexClass ApexTrigger AuraDefinitionBundle LightningComponentBundle StaticResource --target-org ${flags.targetusername}` :
-                'sf project retrieve start --metadata ApexClass ApexTrigger AuraDefinitionBundle LightningComponentBundle StaticResource';
-            execSync(retrieveCommand, { encoding: 'utf8' });
-            execSync('sfdx scanner:run --target . --format csv --normalize-severity > CLIScannerResults.csv');
-            const results = preprocessResults();
-            const codeLines = calculateCodeLines();
-            baseSummary.Code = { 'Risks': results.length, 'RiskDetails': results, 'LinesOfCode': (codeLines.Apex.Total + codeLines.JavaScript.Total), 'RisksPerLineRatio': results.length / (codeLines.Apex.Total + codeLines.JavaScript.Total), 'LineDetails': codeLines };
-            process.chdir('../../../../');
-        } catch (error) {
-            errors.push({ calculateLinesOfCodeError: error.message });
-        }
+        sections.push(runSection('Code', async (sectionRunner, signal) => {
+            const previousCode = flags.sourcepath || previousSummary?.Provenance?.Sections?.Code?.SourcePath || !previousSummary?.Code || !hasFileLineCounts(previousSummary.Code) ? undefined : previousSummary.Code;
+            const detected = previousCode ? await detectCodeChanges((components) => {
+                const componentChanges = findChangedComponents(components, previousCode, since);
+                return { changes: componentChanges, metadata: toRetrieveMetadata(componentChanges, components) };
+            }, signal) : undefined;
+            const changes = detected?.changes;
+            if (changes && Object.keys(changes).length === 0) {
+                logger.log('No code changed since the previous summary, carrying the code analysis forward.');
+                baseSummary.Code = previousCode;
+                provenance.Sections.Code = carriedForward(previousSummary, 'Code');
+                return;
+            }
+            const metadata = detected ? detected.metadata : codeMetadataTypes;
+            let projectDirectory: string;
+            if (flags.sourcepath) {
+                projectDirectory = path.resolve(flags.sourcepath);
+                if (!fs.existsSync(projectDirectory)) {
+                    throw new Error(`Source path ${flags.sourcepath} does not exist`);
+                }
+            } else {
+                projectDirectory = `${orgSummaryDirectory}/tempSFDXProject`;
+                await sectionRunner.run('sfdx force:project:create -x -n tempSFDXProject', { cwd: orgSummaryDirectory });
+                if (metadata.length > 0) {
+                    const retrieveCommand = flags.targetusername ? `sf project retrieve start --metadata ${metadata.join(' ')} --target-org ${flags.targetusername}` :
+                        `sf project retrieve start --metadata ${metadata.join(' ')}`;
+                    await sectionRunner.run(retrieveCommand, { cwd: projectDirectory });
+                }
+            }
+            let preprocessedResults: PreprocessedResult[] = [];
+            if (metadata.length > 0) {
+                const scannerTarget = getPackageDirectories(projectDirectory).map((packageDirectory) => `"${packageDirectory}"`).join(',');
+                const scannerResults = await sectionRunner.run(`sfdx scanner:run --target ${scannerTarget} --format json --normalize-severity`, { cwd: projectDirectory });
+                // The results are kept with the summary output so a local project is never written to.
+                fs.writeFileSync(`${orgSummaryDirectory}/CLIScannerResults.json`, scannerResults, 'utf8');
+                preprocessedResults = readScannerResults(`${orgSummaryDirectory}/CLIScannerResults.json`, projectDirectory);
+            }
+            const codeLines = calculateCodeLines(projectDirectory);
+            if (changes) {
+                baseSummary.Code = mergeCodeAnalysis(previousCode, changes, codeLines, preprocessedResults, flags.hotspots ?? 10);
+                const refreshed = Object.keys(changes).reduce((components, metadataType) => components.concat(changes[metadataType].map((name) => `${metadataType}:${name}`)), [] as string[]);
+                provenance.Sections.Code = { Source: 'Incremental', Timestamp: baseSummary.Timestamp, Refreshed: refreshed };
+                return;
+            }
+            const results = preprocessedResults.map((result) => result.Row);
+            const linesOfCode = sumLinesOfCode([codeLines.Apex, codeLines.JavaScript, codeLines.Visualforce, codeLines.HTML, codeLines.CSS]).Code;
+            baseSummary.Code = { 'Risks': results.length, 'RiskDetails': results, 'LinesOfCode': linesOfCode, 'RisksPerLineRatio': linesOfCode > 0 ? results.length / linesOfCode : 0, 'LineDetails': codeLines, ...summarizeRisks(preprocessedResults, flags.hotspots ?? 10) };
+            provenance.Sections.Code = flags.sourcepath ? { ...collected(), SourcePath: projectDirectory } : collected();
+        }));
     }
 
     if (flags.tests) {
-        try {
-            const testResultsCommand = `sfdx force:apex:test:run --target-org "${flags.targetusername}" --test-level RunLocalTests --code-coverage --result-format json > ${orgSummaryDirectory}/testResults.json`;
-            execSync(testResultsCommand, { encoding: 'utf8' });
-            const testRunId = extractTestRunId(`${orgSummaryDirectory}/testResults.json`);
-            if (testRunId) {
-                console.log(`Awaiting Apex Test Job "${testRunId}"...`);
-                await pollTestRunResult(testRunId, orgSummaryDirectory, flags.targetusername);
-                const testResult = await getTestRunDetails(testRunId, orgSummaryDirectory, flags.targetusername);
-                const orgWideApexCoverage = await getOrgWideApexCoverage(orgSummaryDirectory, flags.targetusername);
-                const orgWideFlowCoverage = await getFlowCoveragePercentage(flags.targetusername);
-                const flowCoverageDetails = await getFlowCoverageDetails(flags.targetusername) as FlowCoverage[];
-                baseSummary.Tests = {
-                    ApexUnitTests: testResult?.methodsCompleted ?? 0,
-                    TestDuration: testResult?.runtime ?? 0,
-                    TestMethodsCompleted: testResult?.methodsCompleted ?? 0,
-                    TestMethodsFailed: testResult?.methodsFailed ?? 0,
-                    TestOutcome: testResult?.outcome ?? 'N/A',
-                    ApexCoverageDetails: {
-                        'Total': orgWideApexCoverage ?? 0,
-                        'Details': await getApexClassCoverageDetails(orgSummaryDirectory, flags.targetusername),
-                    },
-                    FlowCoverageDetails: {
-                        'Total': orgWideFlowCoverage ?? 0,
-                        'Details': flowCoverageDetails
-                    }
-                };
+        sections.push(runSection('Tests', async (sectionRunner, signal) => {
+            const testedCodeChanged = previousSummary?.Tests ? await detectCodeChanges((components) => hasTestedCodeChanged(components, previousSummary.Tests, since), signal) : undefined;
+            if (testedCodeChanged === false) {
+                logger.log('No Apex or active flow changed since the previous summary, carrying the test results forward.');
+                baseSummary.Tests = previousSummary.Tests;
+                provenance.Sections.Tests = carriedForward(previousSummary, 'Tests');
+                return;
             }
-        } catch (error) {
-            errors.push({ runApexTestsError: error.message });
-        }
+            const testResultsCommand = `sfdx force:apex:test:run --target-org "${flags.targetusername}" --test-level RunLocalTests --code-coverage --result-format json`;
+            const testResults = await sectionRunner.run(testResultsCommand);
+            fs.writeFileSync(`${orgSummaryDirectory}/testResults.json`, testResults, 'utf8');
+            const testRunId = extractTestRunId(`${orgSummaryDirectory}/testResults.json`, logger);
+            if (!testRunId) {
+                throw new Error('Test run ID not found in the test run output.');
+            }
+            logger.log(`Awaiting Apex Test Job "${testRunId}"...`);
+            await pollTestRunResult(testRunId, orgSummaryDirectory, flags.targetusername, sectionRunner, logger, (status) => emit({ Type: 'TestJobStatus', JobId: testRunId, Status: status }), signal);
+            const [testResult, methodResults, orgWideApexCoverage, apexCoverageDetails, orgWideFlowCoverage, flowCoverageDetails] = await Promise.all([
+                getTestRunDetails(testRunId, orgSummaryDirectory, flags.targetusername, sectionRunner, logger),
+                getTestMethodResults(testRunId, orgSummaryDirectory, flags.targetusername, sectionRunner, logger),
+                getOrgWideApexCoverage(orgSummaryDirectory, flags.targetusername, sectionRunner, logger),
+                getApexClassCoverageDetails(orgSummaryDirectory, flags.targetusername, sectionRunner, logger),
+                getFlowCoveragePercentage(flags.targetusername, sectionRunner, logger),
+                getFlowCoverageDetails(flags.targetusername, sectionRunner, logger) as Promise<FlowCoverage[]>
+            ]);
+            // The detail getters log failed queries and fall back to empty results, so an abort does not reach this point as an error.
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+            baseSummary.Tests = {
+                ApexUnitTests: testResult?.methodsCompleted ?? 0,
+                TestDuration: testResult?.runtime ?? 0,
+                TestMethodsCompleted: testResult?.methodsCompleted ?? 0,
+                TestMethodsFailed: testResult?.methodsFailed ?? 0,
+                TestOutcome: testResult?.outcome ?? 'N/A',
+                MethodResults: methodResults,
+                SlowestTests: [...methodResults].sort((first, second) => second.RunTime - first.RunTime).slice(0, flags.slowesttests ?? 10),
+                FailuresByClass: groupFailuresByClass(methodResults),
+                ApexCoverageDetails: {
+                    'Total': orgWideApexCoverage ?? 0,
+                    'Details': apexCoverageDetails,
+                },
+                FlowCoverageDetails: {
+                    'Total': orgWideFlowCoverage ?? 0,
+                    'Details': flowCoverageDetails
+                }
+            };
+            provenance.Sections.Tests = collected();
+        }));
     }
 
-    if (selectedDataPoints && selectedDataPoints.length > 0) {
-        console.log(`Processing components: ${selectedDataPoints.join(', ')}`);
-        try {
-            const queryResults = queryDataPoints(selectedDataPoints, orgSummaryDirectory, flags.targetusername);
-            baseSummary.Metadata = calculateComponentSummary(selectedDataPoints, queryResults, errors);
-        } catch (error) {
-            errors.push({ componentSummaryError: error.message });
-        }
+    const builtInDataPoints: string[] = selectedDataPoints ?? [];
+    if (builtInDataPoints.length > 0 || customDataPoints.length > 0) {
+        logger.log(`Processing components: ${[...builtInDataPoints, ...customDataPoints.map((customDataPoint) => customDataPoint.Name)].join(', ')}`);
+        sections.push(runSection('Metadata', async (sectionRunner, signal) => {
+            const skippedDataPoints = await preflightDataPoints([
+                ...builtInDataPoints.map((dataPoint) => toDataPointTarget(dataPoint.trim())),
+                ...customDataPoints.map((customDataPoint) => ({ Name: customDataPoint.Name, Object: customDataPoint.Object, Api: customDataPoint.Api ?? 'tooling' }))
+            ], restClient, flags.apiversion, logger, signal);
+            const queriedDataPoints = builtInDataPoints.filter((dataPoint) => !skippedDataPoints[dataPoint.trim()]);
+            const queriedCustomDataPoints = customDataPoints.filter((customDataPoint) => !skippedDataPoints[customDataPoint.Name]);
+            const unchangedDataPoints = previousSummary?.Metadata ? await findUnchangedDataPoints(queriedDataPoints, previousSummary, restClient, flags.apiversion, flags.concurrency, flags.inventory, logger, signal) : [];
+            const refreshedDataPoints = queriedDataPoints.filter((dataPoint) => !unchangedDataPoints.includes(dataPoint));
+            let queriedCount = 0;
+            const onQueried = (dataPoint: string, error?: SummaryError) => {
+                emit({ Type: 'DataPointQueried', DataPoint: dataPoint, Index: ++queriedCount, Total: refreshedDataPoints.length + queriedCustomDataPoints.length });
+                if (error) {
+                    emit({ Type: 'Error', Error: error });
+                }
+            };
+            const queryResults = await queryDataPoints(refreshedDataPoints, orgSummaryDirectory, flags.targetusername, sectionRunner, errors, flags.concurrency, flags.querytimeout, flags.inventory, logger, onQueried);
+            const customResults = await queryCustomDataPoints(queriedCustomDataPoints, orgSummaryDirectory, flags.targetusername, sectionRunner, errors, flags.concurrency, flags.querytimeout, logger, onQueried);
+            // Failed queries are recorded instead of thrown, so an aborted section has to stop before writing its partial results.
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+            baseSummary.Metadata = {
+                ...calculateComponentSummary(refreshedDataPoints, queryResults, errors, flags.inventory, logger),
+                ...customResults
+            };
+            for (const dataPoint of unchangedDataPoints) {
+                if (previousSummary.Metadata[dataPoint]) {
+                    baseSummary.Metadata[dataPoint] = carryDataPointForward(previousSummary.Metadata[dataPoint], flags.inventory);
+                }
+            }
+            for (const dataPoint of Object.keys(skippedDataPoints)) {
+                logger.log(`Skipping data point '${dataPoint}': ${skippedDataPoints[dataPoint]}`);
+                baseSummary.Metadata[dataPoint] = { Total: 'N/A', Skipped: true, SkipReason: skippedDataPoints[dataPoint] };
+            }
+            const refreshed = [...refreshedDataPoints, ...queriedCustomDataPoints.map((customDataPoint) => customDataPoint.Name)];
+            if (unchangedDataPoints.length === 0) {
+                provenance.Sections.Metadata = collected();
+            } else if (refreshed.length === 0) {
+                provenance.Sections.Metadata = carriedForward(previousSummary, 'Metadata');
+            } else {
+                provenance.Sections.Metadata = { Source: 'Incremental', Timestamp: baseSummary.Timestamp, Refreshed: refreshed };
+            }
+            const failedDataPoints = errors.filter((error) => error.Section === 'Metadata' && !error.Unsupported).length;
+            return failedDataPoints < refreshed.length || failedDataPoints === 0;
+        }));
     }
 
-    baseSummary.ResultState = errors.length > 0 ? 'Failure' : 'Completed';
+    await Promise.all(sections);
+
+    baseSummary.Errors = errors;
+    baseSummary.Provenance = provenance;
+    baseSummary.ResultState = resolveResultState(attemptedSections, completedSections, errors);
+    // A timed-out section may still be running, so the summary gets its own copies of what the sections write to.
     const summary: OrgSummary = {
-        ...baseSummary
+        ...baseSummary,
+        Errors: [...errors],
+        Provenance: { ...provenance, Sections: { ...provenance.Sections } }
     };
-    finish(orgSummaryDirectory, summary, flags.keepdata, flags.outputdirectory);
+    const exporters = [...(flags.exporters ?? [])];
+    if (flags.htmlreport && flags.outputdirectory) {
+        exporters.push(new HtmlExporter());
+    }
+    await finish(orgSummaryDirectory, summary, flags, exporters);
     return summary;
 }
 
-export async function uploadSummary(orgSummary: OrgSummary | string, orgAlias?: string): Promise<UploadSummaryResult> {
+export async function summarizeOrgs(aliases: string[], flags: flags): Promise<SummarizeOrgsResult> {
+    const logger = flags.logger ?? console;
+    const summaries = await mapWithConcurrency(aliases, flags.orgconcurrency ?? 1, async (alias): Promise<OrgSummaryResult> => {
+        try {
+            return { Alias: alias, Summary: await summarizeOrg({ ...flags, targetusername: alias }) };
+        } catch (error) {
+            logger.error(`Error summarizing org ${alias}:`, error.message);
+            return { Alias: alias, Error: error.message };
+        }
+    });
+    const portfolio = buildPortfolio(summaries);
+    if (flags.outputdirectory) {
+        fs.mkdirSync(flags.outputdirectory, { recursive: true });
+        const jsonFilePath = `${flags.outputdirectory}/portfolio.json`;
+        fs.writeFileSync(jsonFilePath, JSON.stringify(portfolio, null, 2), 'utf8');
+        logger.log(`Portfolio saved as: ${jsonFilePath}`);
+    }
+    return { Summaries: summaries, Portfolio: portfolio };
+}
+
+export async function uploadSummary(orgSummary: OrgSummary | string, orgAlias?: string, runner: CommandRunner = new CliCommandRunner(), logger: Logger = console): Promise<UploadSummaryResult> {
     const conn = new jsforce.Connection();
         try {
-            const info = getOrgInfo(orgAlias);
+            const info = await getOrgInfo(orgAlias, runner, logger);
             conn.instanceUrl = info.instanceUrl;
             conn.accessToken = info.accessToken;
             if (typeof orgSummary === 'string') {
-                const summaryFilePath = orgSummary;
-                const summaryFileContent = fs.readFileSync(summaryFilePath, 'utf8');
-                orgSummary = JSON.parse(summaryFileContent) as OrgSummary;
+                orgSummary = loadSummary(orgSummary);
             }
             if (!orgSummary || !orgSummary.OrgId) {
                 throw new Error('Invalid or missing OrgSummary provided.');
@@ -177,81 +447,164 @@ export async function uploadSummary(orgSummary: OrgSummary | string, orgAlias?:
                 Username__c: orgSummary.Username,
                 DateOfSummary__c: formattedDateOfSummary,
             };
-            const result:UploadSummaryResult = await conn.sobject('OrgSummary__c').create(orgSummaryRecord) as UploadSummaryResult;
-            console.log('OrgSummary__c record created:', result);
-            
+            const upsertResult = await conn.sobject('OrgSummary__c').upsert(orgSummaryRecord, 'Id__c');
+            if (!upsertResult.success) {
+                throw new Error(`OrgSummary__c record could not be saved: ${upsertResult.errors.join(', ')}`);
+            }
+            const savedSummary = await conn.sobject('OrgSummary__c').findOne({ Id__c: orgSummaryRecord.Id__c }, ['Id']);
+            const result: UploadSummaryResult = { id: savedSummary.Id, success: true, errors: [], records: [] };
+            result.records.push({ object: 'OrgSummary__c', id: savedSummary.Id, success: true, errors: [] });
+            logger.log('OrgSummary__c record saved:', savedSummary.Id);
+
+            // Child records of an earlier upload of the same summary are replaced.
+            await deleteRecords(conn, 'Metadata_Component__c', { 'Metadata__r.OrgSummary__c': result.id });
+            for (const objectName of summaryChildObjects) {
+                await deleteRecords(conn, objectName, { OrgSummary__c: result.id });
+            }
+
             if(orgSummary.HealthCheck){
-                const healthCheckRecord = {
+                await createRecords(conn, 'HealthCheckSummary__c', [{
                     OrgSummary__c: result.id,
                     Score__c: orgSummary.HealthCheck.Score,
                     Criteria__c: orgSummary.HealthCheck.Criteria,
                     Risks__c: orgSummary.HealthCheck.Risks,
                     Compliant__c: orgSummary.HealthCheck.Compliant,
-                };
-                const hcResult = await conn.sobject('HealthCheckSummary__c').create(healthCheckRecord);
-                console.log('HealthCheckSummary__c record created:', result);
+                }], result, logger);
+                await createRecords(conn, 'HealthCheckRisk__c', orgSummary.HealthCheck.Details.map((risk) => ({
+                    OrgSummary__c: result.id,
+                    Setting__c: risk.Setting,
+                    SettingGroup__c: risk.SettingGroup,
+                    SettingRiskCategory__c: risk.SettingRiskCategory,
+                    RiskType__c: risk.RiskType,
+                    OrgValue__c: risk.OrgValue,
+                })), result, logger);
             }
             if(orgSummary.Code){
-                const codeSummaryRecord = {
+                await createRecords(conn, 'CodeSummary__c', [{
                     OrgSummary__c: result.id,
                     LinesOfCode__c: orgSummary.Code.LinesOfCode,
                     Risks__c: orgSummary.Code.Risks,
                     RisksPerLineRatio__c: orgSummary.Code.RisksPerLineRatio
-                };
-                const cResult = await conn.sobject('CodeSummary__c').create(codeSummaryRecord);
-                console.log('CodeSummary__c record created:', result);
+                }], result, logger);
+                await createRecords(conn, 'CodeRisk__c', orgSummary.Code.RiskDetails.map((risk) => ({
+                    OrgSummary__c: result.id,
+                    File__c: risk.File,
+                    Line__c: risk.Line,
+                    Column__c: risk.Column,
+                    Rule__c: risk.Rule,
+                    Severity__c: risk.Severity,
+                    NormalizedSeverity__c: risk['Normalized Severity'],
+                    Category__c: risk.Category,
+                    Engine__c: risk.Engine,
+                    Description__c: risk.Description,
+                    URL__c: risk.URL,
+                })), result, logger);
             }
             if(orgSummary.Tests){
-                const testSummaryRecord = {
+                await createRecords(conn, 'TestsSummary__c', [{
                     OrgSummary__c: result.id,
                     ApexUnitTests__c: orgSummary.Tests.ApexUnitTests,
                     TestDuration__c: orgSummary.Tests.TestDuration,
                     TestMethodsCompleted__c: orgSummary.Tests.TestMethodsCompleted,
                     TestMethodsFailed__c: orgSummary.Tests.TestMethodsFailed,
-                };
-                const testResult = await conn.sobject('TestsSummary__c').create(testSummaryRecord);
-                console.log('CodeSummary__c record created:', result);
+                }], result, logger);
+                await createRecords(conn, 'ApexCoverage__c', orgSummary.Tests.ApexCoverageDetails.Details.map((coverage) => ({
+                    OrgSummary__c: result.id,
+                    Name: truncateName(coverage.Name),
+                    CoveragePercentage__c: coverage.CoveragePercentage,
+                })), result, logger);
+                await createRecords(conn, 'FlowCoverage__c', orgSummary.Tests.FlowCoverageDetails.Details.map((coverage) => ({
+                    OrgSummary__c: result.id,
+                    Name: truncateName(coverage.Name),
+                    CoveragePercentage__c: coverage.CoveragePercentage,
+                })), result, logger);
             }
 
             if(orgSummary.Limits){
-                const limitSummaryRecord = {
+                await createRecords(conn, 'LimitsSummary__c', [{
                     OrgSummary__c: result.id,
                     Applicable__c: orgSummary.Limits.Applicable,
                     Reached__c: orgSummary.Limits.Reached,
                     Unattained__c: orgSummary.Limits.Unattained
-                };
-                const testResult = await conn.sobject('LimitsSummary__c').create(limitSummaryRecord);
-                console.log('LimitsSummary__c record created:', result);
+                }], result, logger);
+                await createRecords(conn, 'Limit__c', orgSummary.Limits.Details.map((limit) => ({
+                    OrgSummary__c: result.id,
+                    Name: truncateName(limit.Name),
+                    Max__c: limit.Max,
+                    Remaining__c: limit.Remaining,
+                    Usage__c: limit.Usage,
+                })), result, logger);
             }
             if (orgSummary.Metadata) {
-                const metadataSummaryRecord = {
+                const [metadataSummaryResult] = await createRecords(conn, 'MetadataSummary__c', [{
                     OrgSummary__c: result.id,
-                };
-                const metadataSummaryResult = await conn.sobject('MetadataSummary__c').create(metadataSummaryRecord);
-                console.log('MetadataSummary__c record created:', metadataSummaryResult);
-                const metadataTypes = Object.keys(orgSummary.Metadata);
-                for (const metadataType of metadataTypes) {
-                    const metadataTypeDetails = orgSummary.Metadata[metadataType];
-                    const metadataComponentRecord = {
+                }], result, logger);
+                if (metadataSummaryResult.success) {
+                    const metadata = orgSummary.Metadata;
+                    // Skipped data points have no count to store.
+                    await createRecords(conn, 'Metadata_Component__c', Object.keys(metadata).filter((metadataType) => !metadata[metadataType].Skipped).map((metadataType) => ({
                         Name: metadataType,
                         Metadata__c: metadataSummaryResult.id,
-                        Total__c: metadataTypeDetails.Total,
-                        Last_Modified__c: new Date(metadataTypeDetails.LastModifiedDate),
-                    };
-                    const metadataComponentResult = await conn.sobject('Metadata_Component__c').create(metadataComponentRecord);
-                    console.log('Metadata_Component__c record created:', metadataComponentResult);
+                        Total__c: metadata[metadataType].Total === 'N/A' ? null : metadata[metadataType].Total,
+                        Last_Modified__c: metadata[metadataType].LastModifiedDate ? new Date(metadata[metadataType].LastModifiedDate) : null,
+                    })), result, logger);
                 }
             }
+            result.success = result.records.every((record) => record.success);
+            result.errors = result.records.flatMap((record) => record.errors.map((error) => `${record.object}: ${error}`));
 
             return result;
         } catch (error) {
-            console.error('Error uploading summary to Salesforce:', error);
+            logger.error('Error uploading summary to Salesforce:', error);
             throw error;
         }
 }
 
-function finish(orgSummaryDirectory: string, summarizedOrg: OrgSummary, keepData: boolean, outputDirectory?: string) {
-    if (!keepData) {
+const summaryChildObjects = [
+    'HealthCheckSummary__c',
+    'HealthCheckRisk__c',
+    'CodeSummary__c',
+    'CodeRisk__c',
+    'TestsSummary__c',
+    'ApexCoverage__c',
+    'FlowCoverage__c',
+    'LimitsSummary__c',
+    'Limit__c',
+    'MetadataSummary__c'
+];
+
+// jsforce only splits arrays of more than 200 records into several sObject Collections requests with allowRecursive.
+async function createRecords(conn: any, objectName: string, records: object[], uploadResult: UploadSummaryResult, logger: Logger = console): Promise<UploadRecordResult[]> {
+    if (records.length === 0) {
+        return [];
+    }
+    const batchResults = await conn.sobject(objectName).create(records, { allOrNone: false, allowRecursive: true });
+    const recordResults: UploadRecordResult[] = batchResults.map((batchResult: any) => ({
+        object: objectName,
+        id: batchResult.id,
+        success: batchResult.success,
+        errors: (batchResult.errors ?? []).map((error: any) => (typeof error === 'string' ? error : error.message))
+    }));
+    const failed = recordResults.filter((recordResult) => !recordResult.success).length;
+    logger.log(`${objectName} records created: ${recordResults.length - failed}, failed: ${failed}`);
+    uploadResult.records.push(...recordResults);
+    return recordResults;
+}
+
+async function deleteRecords(conn: any, objectName: string, conditions: object) {
+    const records = await conn.sobject(objectName).find(conditions, ['Id']).autoFetch(true).maxFetch(1000000);
+    if (records.length > 0) {
+        await conn.sobject(objectName).destroy(records.map((record: { Id: string }) => record.Id), { allowRecursive: true });
+    }
+}
+
+function truncateName(name: string): string {
+    return name && name.length > 80 ? name.substring(0, 80) : name;
+}
+
+async function finish(orgSummaryDirectory: string, summarizedOrg: OrgSummary, flags: flags, exporters: SummaryExporter[] = []) {
+    const logger = flags.logger ?? console;
+    if (!flags.keepdata) {
         const cleanUpDirectory = () => {
             const files = fs.readdirSync(orgSummaryDirectory);
             for (const file of files) {
@@ -268,53 +621,134 @@ function finish(orgSummaryDirectory: string, summarizedOrg: OrgSummary, keepData
     const saveSummaryAsJson = (summaryData: OrgSummary) => {
         const jsonFilePath = `${orgSummaryDirectory}/orgsummary.json`;
         fs.writeFileSync(jsonFilePath, JSON.stringify(summaryData, null, 2), 'utf8');
-        console.log(`Summary saved as: ${jsonFilePath}`);
+        logger.log(`Summary saved as: ${jsonFilePath}`);
     };
-    if(outputDirectory){
+    const saveInventoryAsCsv = (summaryData: OrgSummary) => {
+        const csvFilePath = `${orgSummaryDirectory}/inventory.csv`;
+        fs.writeFileSync(csvFilePath, inventoryToCsv(summaryData), 'utf8');
+        logger.log(`Inventory saved as: ${csvFilePath}`);
+    };
+    if(flags.outputdirectory){
         saveSummaryAsJson(summarizedOrg);
+        if (flags.inventory) {
+            saveInventoryAsCsv(summarizedOrg);
+        }
+    }
+    for (const exporter of exporters) {
+        try {
+            await exporter.export(summarizedOrg, orgSummaryDirectory);
+            logger.log(`Summary exported with ${exporter.constructor.name}`);
+        } catch (error) {
+            logger.error(`Error exporting summary with ${exporter.constructor.name}:`, error.message);
+        }
     }
 }
 
-async function checkLimits(instanceURL: string, accessToken: string): Promise<Limit[]> {
+async function checkLimits(restClient: RestClient, apiVersion = defaultApiVersion, thresholds: LimitThresholds, logger: Logger = console, signal?: AbortSignal): Promise<Limit[]> {
     const limits: Limit[] = [];
-    const limitsApiUrl = `${instanceURL}/services/data/v50.0/limits/`;
     try {
-        const limitsApiResponse = await axios.get(limitsApiUrl, {
-            headers: {
-                Authorization: `Bearer ${accessToken}`,
-            },
-        });
-        const limitsData = limitsApiResponse.data;
+        const limitsData = await restClient.get(`/services/data/v${apiVersion}/limits/`, { signal });
         for (const key in limitsData) {
             if (Object.prototype.hasOwnProperty.call(limitsData, key)) {
                 const limitInfo = limitsData[key];
-                const description = `Description for ${key}`;
-                if (limitInfo && limitInfo.Max !== undefined && limitInfo.Remaining !== undefined) {
-                    limits.push({
-                        Name: key,
-                        Max: limitInfo.Max,
-                        Remaining: limitInfo.Remaining,
-                        Usage: limitInfo.Max - limitInfo.Remaining,
-                        Description: description,
-                    });
+                if (isLimitInfo(limitInfo)) {
+                    const description = limitDescriptions[key] ?? key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+                    limits.push(toLimit(key, description, limitInfo, thresholds));
                 } else {
                     // Handle the case where Max or Remaining is undefined
-                    console.warn(`Skipping limit ${key} due to missing Max or Remaining.`);
+                    logger.warn(`Skipping limit ${key} due to missing Max or Remaining.`);
                 }
             }
         }
 
         return limits;
     } catch (error) {
-        console.error('Error fetching limits from Salesforce API:', error.message);
+        logger.error('Error fetching limits from Salesforce API:', error.message);
+        throw error;
+    }
+}
+
+// Besides Max and Remaining, a limit can hold the usage of each connected app as nested limits.
+function toLimit(name: string, description: string, limitInfo: any, thresholds: LimitThresholds): Limit {
+    const usage = limitInfo.Max - limitInfo.Remaining;
+    const usagePercentage = limitInfo.Max > 0 ? Number(((usage / limitInfo.Max) * 100).toFixed(2)) : 'N/A';
+    const limit: Limit = {
+        Name: name,
+        Max: limitInfo.Max,
+        Remaining: limitInfo.Remaining,
+        Usage: usage,
+        UsagePercentage: usagePercentage,
+        Status: getLimitStatus(usagePercentage, thresholds),
+        Description: description,
+    };
+    const applications = Object.keys(limitInfo).filter((key) => isLimitInfo(limitInfo[key]));
+    if (applications.length > 0) {
+        limit.Applications = applications.map((application) => toLimit(application, description, limitInfo[application], thresholds));
+    }
+    return limit;
+}
+
+function isLimitInfo(value: any): boolean {
+    return value !== null && typeof value === 'object' && value.Max !== undefined && value.Remaining !== undefined;
+}
+
+async function getDataSummary(restClient: RestClient, apiVersion = defaultApiVersion, topCount = defaultTopObjects, previousSummary?: OrgSummary, signal?: AbortSignal): Promise<DataSummary> {
+    const [recordCounts, limits] = await Promise.all([
+        restClient.get(`/services/data/v${apiVersion}/limits/recordCount`, { signal }),
+        restClient.get(`/services/data/v${apiVersion}/limits/`, { signal })
+    ]);
+    return summarizeData(recordCounts.sObjects ?? [], limits, topCount, previousSummary);
+}
+
+async function getUserSummary(restClient: RestClient, apiVersion = defaultApiVersion, inactiveDays = defaultInactiveDays, signal?: AbortSignal): Promise<UserSummary> {
+    const query = (soql: string) => queryRecords(restClient, apiVersion, soql, 'data', signal);
+    const [usersByState, frozen, neverLoggedIn, notLoggedInRecently, userLicenses, permissionSetLicenses] = await Promise.all([
+        query('SELECT IsActive, COUNT(Id) total FROM User GROUP BY IsActive'),
+        query('SELECT COUNT() FROM UserLogin WHERE IsFrozen = true'),
+        query('SELECT COUNT() FROM User WHERE IsActive = true AND LastLoginDate = null'),
+        query(`SELECT COUNT() FROM User WHERE IsActive = true AND (LastLoginDate = null OR LastLoginDate < LAST_N_DAYS:${inactiveDays})`),
+        query('SELECT Name, MasterLabel, Status, TotalLicenses, UsedLicenses FROM UserLicense'),
+        query('SELECT DeveloperName, MasterLabel, Status, TotalLicenses, UsedLicenses, ExpirationDate FROM PermissionSetLicense')
+    ]);
+    const countUsers = (isActive: boolean) => Number(usersByState.records.find((record) => record.IsActive === isActive)?.total ?? 0);
+    return {
+        Active: countUsers(true),
+        Inactive: countUsers(false),
+        Frozen: frozen.totalSize,
+        NeverLoggedIn: neverLoggedIn.totalSize,
+        InactiveDays: inactiveDays,
+        NotLoggedInRecently: notLoggedInRecently.totalSize,
+        UserLicenses: sortLicenseUsage(userLicenses.records.map(toLicenseUsage)),
+        PermissionSetLicenses: sortLicenseUsage(permissionSetLicenses.records.map(toLicenseUsage))
+    };
+}
+
+async function getSecuritySummary(restClient: RestClient, apiVersion = defaultApiVersion, signal?: AbortSignal): Promise<SecuritySummary> {
+    const query = (soql: string) => queryRecords(restClient, apiVersion, soql, 'data', signal);
+    const permissions = Object.keys(highRiskPermissions);
+    const grantingPermissionSets = `SELECT Id FROM PermissionSet WHERE ${highRiskPermissionFilter()}`;
+    const [permissionSets, activeAssignments, groupComponents, usersWithHighRiskPermissions, ...usersPerPermission] = await Promise.all([
+        query(`SELECT Id, Name, Label, IsOwnedByProfile, Profile.Name, PermissionSetGroupId, PermissionSetGroup.DeveloperName, PermissionSetGroup.MasterLabel, ${permissions.map((permission) => `Permissions${permission}`).join(', ')} FROM PermissionSet WHERE ${highRiskPermissionFilter()}`),
+        query(`SELECT PermissionSetId, COUNT(Id) total FROM PermissionSetAssignment WHERE Assignee.IsActive = true AND PermissionSetId IN (${grantingPermissionSets}) GROUP BY PermissionSetId`),
+        query(`SELECT PermissionSetId, PermissionSetGroup.DeveloperName FROM PermissionSetGroupComponent WHERE PermissionSetId IN (${grantingPermissionSets})`),
+        query(`SELECT COUNT_DISTINCT(AssigneeId) total FROM PermissionSetAssignment WHERE Assignee.IsActive = true AND PermissionSetId IN (${grantingPermissionSets})`),
+        ...permissions.map((permission) => query(`SELECT COUNT_DISTINCT(AssigneeId) total FROM PermissionSetAssignment WHERE Assignee.IsActive = true AND PermissionSetId IN (SELECT Id FROM PermissionSet WHERE ${highRiskPermissionFilter([permission])})`))
+    ]);
+    const activeAssignees: { [permissionSetId: string]: number } = {};
+    for (const record of activeAssignments.records) {
+        activeAssignees[record.PermissionSetId] = Number(record.total);
     }
-    return limits;
+    const activeUsers: { [permission: string]: number } = {};
+    permissions.forEach((permission, index) => {
+        activeUsers[permission] = Number(usersPerPermission[index].records[0]?.total ?? 0);
+    });
+    return summarizePermissions(permissionSets.records, activeAssignees, groupComponents.records, activeUsers, Number(usersWithHighRiskPermissions.records[0]?.total ?? 0));
 }
 
-async function getFlowCoverageDetails(orgAlias?: string): Promise<{ Name: string; CoveragePercentage: number }[]> {
+async function getFlowCoverageDetails(orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<{ Name: string; CoveragePercentage: number }[]> {
     try {
-        const flowCoverage = new GetFlowCoverage();
-        const flowDefinitionViews = new GetFlowDefinitionViews();
+        const flowCoverage = new GetFlowCoverage(runner);
+        const flowDefinitionViews = new GetFlowDefinitionViews(runner);
 
         const coverageResult = await flowCoverage.getFlowCoverage(orgAlias);
         const flowDefinitionsResult = await flowDefinitionViews.getFlowDefinitionViews(orgAlias);
@@ -333,18 +767,18 @@ async function getFlowCoverageDetails(orgAlias?: string): Promise<{ Name: string
                 };
             });
         } else {
-            console.error('No flow coverage or flow definition records found.');
+            logger.error('No flow coverage or flow definition records found.');
             return [];
         }
     } catch (error) {
-        console.error('Error getting flow coverage details:', error.message);
+        logger.error('Error getting flow coverage details:', error.message);
         return [];
     }
 }
 
-async function getFlowCoveragePercentage(orgAlias?: string): Promise<number> {
+async function getFlowCoveragePercentage(orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<number> {
     try {
-        const flowCoverage = new GetFlowCoverage();
+        const flowCoverage = new GetFlowCoverage(runner);
         const coverageResult = await flowCoverage.getFlowCoverage(orgAlias);
 
 
@@ -353,38 +787,38 @@ async function getFlowCoveragePercentage(orgAlias?: string): Promise<number> {
             const totalElements = firstRecord.NumElementsCovered + firstRecord.NumElementsNotCovered;
             return totalElements > 0 ? (firstRecord.NumElementsCovered / totalElements) * 100 : 0;
         } else {
-            console.error('No flow coverage records found.');
+            logger.error('No flow coverage records found.');
             return 0;
         }
     } catch (error) {
-        console.error('Error getting flow coverage:', error.message);
+        logger.error('Error getting flow coverage:', error.message);
         return 0;
     }
 }
 
-async function getApexClassCoverageDetails(path: string, orgAlias?: string): Promise<ApexClassCoverage[]> {
+async function getApexClassCoverageDetails(path: string, orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<ApexClassCoverage[]> {
     try {
         const query = 'SELECT ApexClassOrTrigger.Name, NumLinesCovered, NumLinesUncovered FROM ApexCodeCoverageAggregate';
-        const results = await queryMetadata(query, path + '/apexClassCoverageDetails.json', orgAlias);
+        const results = await queryMetadata(query, path + '/apexClassCoverageDetails.json', orgAlias, runner);
         const coverageDetails: ApexClassCoverage[] = results.map((result: any) => ({
             Name: result['ApexClassOrTrigger.Name'] || 'N/A',
-            CoveragePercentage: calculateCoveragePercentage(result.NumLinesCovered, result.NumLinesUncovered)
+            CoveragePercentage: calculateCoveragePercentage(Number(result.NumLinesCovered), Number(result.NumLinesUncovered))
         }));
 
         return coverageDetails;
     } catch (error) {
-        console.error('Error getting Apex class coverage details:', error.message);
+        logger.error('Error getting Apex class coverage details:', error.message);
         return [];
     }
 }
 
-function calculateComponentSummary(selectedDataPoints: string[], queryResults: { [key: string]: QueryResult[] }, errors: any[]) {
+function calculateComponentSummary(selectedDataPoints: string[], queryResults: { [key: string]: QueryResult[] }, errors: SummaryError[], inventory?: boolean, logger: Logger = console) {
     const componentSummary: { [key: string]: ComponentSummary } = {};
     for (const dataPoint of selectedDataPoints) {
         const key = dataPoint;
-        if (errors.some(error => error && error.dataPoint === dataPoint)) {
+        if (errors.some(error => error.DataPoint === dataPoint)) {
             // Skip this data point if an error occurred
-            console.log(`Skipping data point '${dataPoint}' due to a previous error.`);
+            logger.log(`Skipping data point '${dataPoint}' due to a previous error.`);
             continue;
         }
 
@@ -398,6 +832,17 @@ function calculateComponentSummary(selectedDataPoints: string[], queryResults: {
                     Total: resultLength,
                     LastModifiedDate: lastModifiedDate
                 };
+                if (inventory) {
+                    const nameField = dataPointNameFields[dataPoint.trim()];
+                    componentSummary[key].Components = results.map((record) => ({
+                        Id: record.Id,
+                        Name: nameField ? record[nameField] : undefined,
+                        CreatedBy: record['CreatedBy.Name'],
+                        CreatedDate: record.CreatedDate,
+                        LastModifiedBy: record['LastModifiedBy.Name'],
+                        LastModifiedDate: record.LastModifiedDate
+                    }));
+                }
             }
         }
     }
@@ -409,31 +854,30 @@ function calculateCoveragePercentage(linesCovered: number, linesUncovered: numbe
     return totalLines > 0 ? (linesCovered / totalLines) * 100 : 0;
 }
 
-function getHealthCheckScore(path: string, orgAlias?: string): HealthCheckSummary {
+async function getHealthCheckScore(path: string, orgAlias?: string, runner: CommandRunner = new CliCommandRunner(), timeout?: number): Promise<HealthCheckSummary> {
     let healthCheckSummary: HealthCheckSummary = { 'Score': 'N/A', 'Criteria': 'N/A', 'Risks': 'N/A', 'Compliant': 'N/A', 'Details': [] };
     let commandHCS;
     const commandHCSPath = path + '/HCS.csv';
     const commandHCRPath = path + '/HCR.csv';
     let commandHCR;
     if (orgAlias) {
-        commandHCS = `sfdx data:query --query "SELECT Score FROM SecurityHealthCheck" --target-org "${orgAlias}" --result-format csv --use-tooling-api > ${commandHCSPath}`;
-        commandHCR = `sfdx data:query --query "SELECT OrgValue, RiskType, Setting, SettingGroup, SettingRiskCategory FROM SecurityHealthCheckRisks" --target-org "${orgAlias}" --result-format csv --use-tooling-api > ${commandHCRPath}`;
+        commandHCS = `sfdx data:query --query "SELECT Score FROM SecurityHealthCheck" --target-org "${orgAlias}" --result-format csv --use-tooling-api`;
+        commandHCR = `sfdx data:query --query "SELECT OrgValue, RiskType, Setting, SettingGroup, SettingRiskCategory FROM SecurityHealthCheckRisks" --target-org "${orgAlias}" --result-format csv --use-tooling-api`;
     } else {
-        commandHCS = `sfdx data:query --query "SELECT Score FROM SecurityHealthCheck" --result-format csv --use-tooling-api > ${commandHCSPath}`;
-        commandHCR = `sfdx data:query --query "SELECT OrgValue, RiskType, Setting, SettingGroup, SettingRiskCategory FROM SecurityHealthCheckRisks" --result-format csv --use-tooling-api > ${commandHCSPath}`;
+        commandHCS = `sfdx data:query --query "SELECT Score FROM SecurityHealthCheck" --result-format csv --use-tooling-api`;
+        commandHCR = `sfdx data:query --query "SELECT OrgValue, RiskType, Setting, SettingGroup, SettingRiskCategory FROM SecurityHealthCheckRisks" --result-format csv --use-tooling-api`;
     }
 
-        execSync(commandHCS, { encoding: 'utf8' });
-        const hcsData = fs.readFileSync(commandHCSPath, 'utf8');
+        const [hcsData, hcrData] = await Promise.all([runner.run(commandHCS, { timeout }), runner.run(commandHCR, { timeout })]);
+        fs.writeFileSync(commandHCSPath, hcsData, 'utf8');
         const hcScore = parse(hcsData, { columns: true });
-        execSync(commandHCR, { encoding: 'utf8' });
-        const hcrData = fs.readFileSync(commandHCRPath, 'utf8');
+        fs.writeFileSync(commandHCRPath, hcrData, 'utf8');
         const hcRisks = parse(hcrData, { columns: true });
         const hcRisksFiltered = (hcRisks as HealthCheckRisk[]).filter((risk) => risk.RiskType !== 'MEETS_STANDARD');
 
         healthCheckSummary =
         {
-            'Score': hcScore[0].Score as number,
+            'Score': toNumber(hcScore[0]?.Score),
             'Criteria': hcRisks.length,
             'Compliant': (hcRisks.length - hcRisksFiltered.length),
             'Risks': hcRisksFiltered.length,
@@ -443,43 +887,69 @@ function getHealthCheckScore(path: string, orgAlias?: string): HealthCheckSummar
 
 }
 
-function buildQuery(dataPoint: string): string {
-    return `SELECT CreatedBy.Name, CreatedDate, Id, LastModifiedBy.Name, LastModifiedDate FROM ${dataPoint} ORDER BY LastModifiedDate DESC`;
+function buildQuery(dataPoint: string, inventory?: boolean): string {
+    const nameField = inventory ? dataPointNameFields[dataPoint] : undefined;
+    const fields = nameField ? `${nameField}, CreatedBy.Name` : 'CreatedBy.Name';
+    return `SELECT ${fields}, CreatedDate, Id, LastModifiedBy.Name, LastModifiedDate FROM ${dataPoint} ORDER BY LastModifiedDate DESC`;
 }
 
-function queryMetadata(query: string, outputCsv: string, orgAlias?: string) {
+async function queryMetadata(query: string, outputCsv: string, orgAlias?: string, runner: CommandRunner = new CliCommandRunner(), timeout?: number, api: 'tooling' | 'data' = 'tooling') {
+    const apiFlag = api === 'tooling' ? ' --use-tooling-api' : '';
     let command;
     if (orgAlias) {
-        command = `sfdx data:query --query "${query}" --target-org "${orgAlias}" --result-format csv --use-tooling-api > ${outputCsv}`;
+        command = `sfdx data:query --query "${query}" --target-org "${orgAlias}" --result-format csv${apiFlag}`;
     } else {
-        command = `sfdx data:query --query "${query}" --result-format csv --use-tooling-api > ${outputCsv}`;
-    }
-    try {
-        execSync(command);
-        const csvData = fs.readFileSync(outputCsv, 'utf8');
-        return parse(csvData, { columns: true });
-    } catch (error) {
-        handleQueryError(query, error, []);
-        return [];
+        command = `sfdx data:query --query "${query}" --result-format csv${apiFlag}`;
     }
+    const csvData = await runner.run(command, { timeout });
+    fs.writeFileSync(outputCsv, csvData, 'utf8');
+    return parse(csvData, { columns: true });
 }
 
-function handleQueryError(dataPoint: string, error: any, errors: any[]) {
-    const isUnsupportedTypeError = error.stderr.includes('sObject type') && error.stderr.includes('is not supported');
-    if (isUnsupportedTypeError) {
+function handleQueryError(dataPoint: string, error: any, errors: SummaryError[], logger: Logger = console): SummaryError {
+    const summaryError = toSummaryError('Metadata', error, dataPoint);
+    if (summaryError.Unsupported) {
+        logger.error(`Query for '${dataPoint}' is not supported.`);
+    } else {
+        logger.error(`Error executing query for '${dataPoint}': ${summaryError.Message}`);
+    }
+    errors.push(summaryError);
+    return summaryError;
+}
 
-        // todo check flag
-        // Handle the specific unsupported sObject type error
-        console.error(`Query for '${dataPoint}' is not supported.`);
-        errors.push(null); // Push a null value to indicate a handled error
+function toSummaryError(section: string, error: any, dataPoint?: string): SummaryError {
+    const stderr = error.stderr ? error.stderr.toString().trim() : '';
+    const unsupported = stderr.includes('sObject type') && stderr.includes('is not supported');
+    const errorCode = stderr.match(/\b([A-Z]+(?:_[A-Z]+)+)\b/);
+    let code: string;
+    if (unsupported) {
+        code = 'UNSUPPORTED_TYPE';
+    } else if (error.killed) {
+        code = 'TIMEOUT';
+    } else if (errorCode) {
+        code = errorCode[1];
+    } else if (typeof error.code === 'string') {
+        code = error.code;
     } else {
-        // Handle other errors
-        console.error(`Error executing query for '${dataPoint}': ${error.message}`);
-        errors.push(error);
+        code = error.status !== undefined ? `EXIT_${error.status}` : 'ERROR';
     }
+    return {
+        Section: section,
+        DataPoint: dataPoint,
+        Code: code,
+        Message: stderr || error.message,
+        Unsupported: unsupported
+    };
+}
+
+function resolveResultState(attemptedSections: string[], completedSections: string[], errors: SummaryError[]): string {
+    if (!errors.some((error) => !error.Unsupported)) {
+        return 'Completed';
+    }
+    return attemptedSections.some((section) => completedSections.includes(section)) ? 'Partial' : 'Failure';
 }
 
-function extractTestRunId(jsonFilePath: string): string | null {
+function extractTestRunId(jsonFilePath: string, logger: Logger = console): string | null {
     try {
         const jsonData = fs.readFileSync(jsonFilePath, 'utf8');
         const regex = /-i\s*([0-9A-Za-z]{15})/;
@@ -487,143 +957,278 @@ function extractTestRunId(jsonFilePath: string): string | null {
         if (match?.[1]) {
             return match[1];
         } else {
-            console.error('Test run ID not found in the JSON file.');
+            logger.error('Test run ID not found in the JSON file.');
             return null;
         }
     } catch (error) {
-        console.error('Error reading JSON file:', error.message);
+        logger.error('Error reading JSON file:', error.message);
         return null;
     }
 }
 
-async function pollTestRunResult(jobId: string, path: string, orgAlias?: string) {
+// Polls with exponential backoff, starting at five seconds and waiting at most one minute between polls.
+async function pollTestRunResult(jobId: string, path: string, orgAlias?: string, runner?: CommandRunner, logger: Logger = console, onStatus?: (status: string) => void, signal?: AbortSignal) {
     let status = 'Queued';
+    let interval = 5000;
     while (status === 'Queued' || status === 'Processing') {
         try {
             const query = `SELECT Id, Status FROM AsyncApexJob WHERE Id = '${jobId}' LIMIT 1`;
             // eslint-disable-next-line no-await-in-loop
-            const result = await queryMetadata(query, path + '/testRunResult.json', orgAlias);
+            const result = await queryMetadata(query, path + '/testRunResult.json', orgAlias, runner);
             if (result.length > 0) {
                 const testJob = result[0];
                 status = testJob.Status;
             } else {
-                console.log('No AsyncApexJob found for the given jobId.');
+                logger.log('No AsyncApexJob found for the given jobId.');
             }
         } catch (error) {
-            console.error('Error polling for test run result:', error.message);
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            logger.error('Error polling for test run result:', error.message);
             status = 'Failed';
         }
-        console.log(`Test Run Status: ${status}`);
-        await new Promise(resolve => setTimeout(resolve, 5000));
+        logger.log(`Test Run Status: ${status}`);
+        onStatus?.(status);
+        if (status === 'Queued' || status === 'Processing') {
+            // eslint-disable-next-line no-await-in-loop
+            await sleep(interval, signal);
+            interval = Math.min(interval * 2, 60000);
+        }
     }
     return status;
 }
 
-function queryDataPoints(selectedDataPoints: string[], orgSummaryDirectory: string, orgAlias?: string | undefined) {
+async function queryCustomDataPoints(customDataPoints: CustomDataPoint[], orgSummaryDirectory: string, orgAlias?: string, runner?: CommandRunner, errors: SummaryError[] = [], concurrency = 4, timeout?: number, logger: Logger = console, onQueried?: (dataPoint: string, error?: SummaryError) => void) {
+    const componentSummary: { [key: string]: ComponentSummary } = {};
+    await mapWithConcurrency(customDataPoints, concurrency, async (customDataPoint) => {
+        try {
+            const result = await queryMetadata(buildCustomQuery(customDataPoint), `${orgSummaryDirectory}/${customDataPoint.Name}.csv`, orgAlias, runner, timeout, customDataPoint.Api ?? 'tooling');
+            componentSummary[customDataPoint.Name] = summarizeCustomDataPoint(customDataPoint, result instanceof Array ? result : []);
+            onQueried?.(customDataPoint.Name);
+        } catch (error) {
+            onQueried?.(customDataPoint.Name, handleQueryError(customDataPoint.Name, error, errors, logger));
+        }
+    });
+    return componentSummary;
+}
+async function queryDataPoints(selectedDataPoints: string[], orgSummaryDirectory: string, orgAlias?: string | undefined, runner?: CommandRunner, errors: SummaryError[] = [], concurrency = 4, timeout?: number, inventory?: boolean, logger: Logger = console, onQueried?: (dataPoint: string, error?: SummaryError) => void) {
     const queryResults: { [key: string]: QueryResult[] } = {};
-    for (const dataPoint of selectedDataPoints) {
-        const query = buildQuery(dataPoint.trim());
-        const result = queryMetadata(query, (orgSummaryDirectory + '/' + dataPoint.trim() + '.csv'), orgAlias);
-        queryResults[dataPoint] = result instanceof Array ? result : [];
-    }
+    await mapWithConcurrency(selectedDataPoints, concurrency, async (dataPoint) => {
+        const query = buildQuery(dataPoint.trim(), inventory);
+        try {
+            const result = await queryMetadata(query, (orgSummaryDirectory + '/' + dataPoint.trim() + '.csv'), orgAlias, runner, timeout);
+            queryResults[dataPoint] = result instanceof Array ? result : [];
+            onQueried?.(dataPoint);
+        } catch (error) {
+            onQueried?.(dataPoint, handleQueryError(dataPoint, error, errors, logger));
+        }
+    });
     return queryResults
 }
 
-async function getTestRunDetails(jobId: string, path: string, orgAlias?: string): Promise<{ outcome: string; runtime: number; methodsCompleted: number; methodsFailed: number } | null> {
+async function getTestRunDetails(jobId: string, path: string, orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<{ outcome: string; runtime: number; methodsCompleted: number; methodsFailed: number } | null> {
     try {
         const query = `SELECT Id, AsyncApexJobId, Status, StartTime, EndTime, TestTime, MethodsCompleted, MethodsFailed FROM ApexTestRunResult WHERE AsyncApexJobId = '${jobId}'`;
-        const results = await queryMetadata(query, path + '/testRunDetails.json', orgAlias);
+        const results = await queryMetadata(query, path + '/testRunDetails.json', orgAlias, runner);
         if (results.length > 0) {
             const testRunResult = results[0];
-            const outcome = testRunResult.Status === 'Completed' && testRunResult.MethodsFailed === 0 ? 'Pass' : 'Fail';
-            const runtime = testRunResult.TestTime as number;
-            const methodsCompleted = testRunResult.MethodsCompleted;
-            const methodsFailed = testRunResult.MethodsFailed;
-            console.log(`Test Run Outcome: ${outcome}, Runtime: ${runtime}s`);
+            // The CLI returns every column of its CSV output as a string.
+            const methodsCompleted = Number(testRunResult.MethodsCompleted) || 0;
+            const methodsFailed = Number(testRunResult.MethodsFailed) || 0;
+            const outcome = testRunResult.Status === 'Completed' && methodsFailed === 0 ? 'Pass' : 'Fail';
+            const runtime = Number(testRunResult.TestTime) || 0;
+            logger.log(`Test Run Outcome: ${outcome}, Runtime: ${runtime}s`);
             return { outcome, runtime, methodsCompleted, methodsFailed };
         } else {
-            console.log('No ApexTestRunResult found for the given jobId.');
+            logger.log('No ApexTestRunResult found for the given jobId.');
             return null;
         }
     } catch (error) {
-        console.error('Error getting test run details:', error.message);
+        logger.error('Error getting test run details:', error.message);
         return null;
     }
 }
 
-async function getOrgWideApexCoverage(path: string, orgAlias?: string): Promise<number | null> {
+async function getTestMethodResults(jobId: string, path: string, orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<TestMethodResult[]> {
+    try {
+        const query = `SELECT ApexClass.Name, MethodName, Outcome, Message, StackTrace, RunTime FROM ApexTestResult WHERE AsyncApexJobId = '${jobId}'`;
+        const results = await queryMetadata(query, path + '/testMethodResults.csv', orgAlias, runner);
+        return results.map((result: any) => ({
+            ClassName: result['ApexClass.Name'] || 'N/A',
+            MethodName: result.MethodName,
+            Outcome: result.Outcome,
+            Message: result.Message || '',
+            StackTrace: result.StackTrace || '',
+            RunTime: Number(result.RunTime) || 0
+        }));
+    } catch (error) {
+        logger.error('Error getting test method results:', error.message);
+        return [];
+    }
+}
+
+function groupFailuresByClass(methodResults: TestMethodResult[]): { [className: string]: TestMethodResult[] } {
+    const failuresByClass: { [className: string]: TestMethodResult[] } = {};
+    for (const methodResult of methodResults.filter((result) => result.Outcome !== 'Pass' && result.Outcome !== 'Skip')) {
+        failuresByClass[methodResult.ClassName] = [...(failuresByClass[methodResult.ClassName] ?? []), methodResult];
+    }
+    return failuresByClass;
+}
+
+async function getOrgWideApexCoverage(path: string, orgAlias?: string, runner?: CommandRunner, logger: Logger = console): Promise<number | null> {
     try {
         const query = 'SELECT PercentCovered FROM ApexOrgWideCoverage';
-        const results = await queryMetadata(query, path + '/orgWideApexCoverage.json', orgAlias);
-        const overallCoverage = results.reduce((sum: any, result: { PercentCovered: any }) => sum + result.PercentCovered, 0) / results.length;
-        return overallCoverage;
+        const results = await queryMetadata(query, path + '/orgWideApexCoverage.json', orgAlias, runner);
+        if (results.length === 0) {
+            return null;
+        }
+        return results.reduce((sum: number, result: { PercentCovered: string }) => sum + Number(result.PercentCovered), 0) / results.length;
     } catch (error) {
-        console.error('Error getting org-wide Apex coverage:', error.message);
+        logger.error('Error getting org-wide Apex coverage:', error.message);
         return null;
     }
 }
 
-function calculateCodeLines(): CodeDetails {
+function calculateCodeLines(projectDirectory = '.'): CodeDetails {
 
-    const apexClassCL = countCodeLines('./force-app/main/default/classes', '.cls', 'apex');
-    const apexTriggerCL = countCodeLines('./force-app/main/default/triggers', '.trigger', 'apex');
-    const AuraDefinitionBundleCL = countCodeLines('./force-app/main/default/aura', '.js', 'javascript');
-    const LightningComponentBundleCL = countCodeLines('./force-app/main/default/lwc', '.js', 'javascript');
-    const StaticResourceCL = countCodeLines('./force-app/main/default/staticresources', '.js', 'javascript');
-    const ApexTotal = apexClassCL.Total + apexTriggerCL.Total;
-    const ApexComments = apexClassCL.Comments + apexTriggerCL.Comments;
-    const ApexCode = apexClassCL.Code + apexTriggerCL.Code;
-    const JavaScriptTotal = AuraDefinitionBundleCL.Total + LightningComponentBundleCL.Total + StaticResourceCL.Total;
-    const JavaScriptComments = AuraDefinitionBundleCL.Comments + LightningComponentBundleCL.Comments + StaticResourceCL.Comments;
-    const JavaScriptCode = AuraDefinitionBundleCL.Code + LightningComponentBundleCL.Code + StaticResourceCL.Code;
+    const folders = (folderName: string) => findMetadataFolders(projectDirectory, folderName);
+    const apexClassCL = countCodeLines(folders('classes'), '.cls', 'apex');
+    const apexTriggerCL = countCodeLines(folders('triggers'), '.trigger', 'apex');
+    const AuraDefinitionBundleCL = countCodeLines(folders('aura'), '.js', 'javascript');
+    const LightningComponentBundleCL = countCodeLines(folders('lwc'), '.js', 'javascript');
+    const StaticResourceCL = countCodeLines(folders('staticresources'), '.js', 'javascript');
+    const apexPageCL = countCodeLines(folders('pages'), '.page', 'markup');
+    const apexComponentCL = countCodeLines(folders('components'), '.component', 'markup');
+    const LightningComponentBundleHtmlCL = countCodeLines(folders('lwc'), '.html', 'markup');
+    const AuraDefinitionBundleCssCL = countCodeLines(folders('aura'), '.css', 'css');
+    const LightningComponentBundleCssCL = countCodeLines(folders('lwc'), '.css', 'css');
 
     return {
         Apex: {
-            Total: ApexTotal,
-            Comments: ApexComments,
-            Code: ApexCode,
+            ...sumLinesOfCode([apexClassCL, apexTriggerCL]),
             Details: {
                 ApexClass: apexClassCL,
                 ApexTrigger: apexTriggerCL,
             },
         },
         JavaScript: {
-            Total: JavaScriptTotal,
-            Comments: JavaScriptComments,
-            Code: JavaScriptCode,
+            ...sumLinesOfCode([AuraDefinitionBundleCL, LightningComponentBundleCL, StaticResourceCL]),
             Details: {
                 AuraDefinitionBundle: AuraDefinitionBundleCL,
                 LightningComponentBundle: LightningComponentBundleCL,
                 StaticResource: StaticResourceCL,
             },
         },
+        Visualforce: {
+            ...sumLinesOfCode([apexPageCL, apexComponentCL]),
+            Details: {
+                ApexPage: apexPageCL,
+                ApexComponent: apexComponentCL,
+            },
+        },
+        HTML: {
+            ...sumLinesOfCode([LightningComponentBundleHtmlCL]),
+            Details: {
+                LightningComponentBundle: LightningComponentBundleHtmlCL,
+            },
+        },
+        CSS: {
+            ...sumLinesOfCode([AuraDefinitionBundleCssCL, LightningComponentBundleCssCL]),
+            Details: {
+                AuraDefinitionBundle: AuraDefinitionBundleCssCL,
+                LightningComponentBundle: LightningComponentBundleCssCL,
+            },
+        },
     };
 }
 
 interface QueryResult {
-    attributes: {
-        type: string;
-        url: string;
-    };
-    CreatedBy: {
-        attributes: {
-            type: string;
-            url: string;
-        };
-        Name: string;
-    };
+    [field: string]: string;
+    'CreatedBy.Name': string;
     CreatedDate: string;
     Id: string;
-    LastModifiedBy: {
-        attributes: {
-            type: string;
-            url: string;
-        };
-        Name: string;
-    };
+    'LastModifiedBy.Name': string;
     LastModifiedDate: string;
 }
 
+function toDataPointTarget(dataPoint: string): DataPointTarget {
+    const definition = dataPointRegistry.find((candidate) => candidate.Name === dataPoint);
+    return {
+        Name: dataPoint,
+        Object: dataPoint,
+        Api: definition?.Api ?? 'tooling',
+        Feature: definition?.Feature,
+        MinApiVersion: definition?.MinApiVersion
+    };
+}
+
+// Describes the available sObjects once per API, so unavailable data points are skipped instead of queried.
+async function preflightDataPoints(targets: DataPointTarget[], restClient: RestClient, apiVersion = defaultApiVersion, logger: Logger = console, signal?: AbortSignal): Promise<{ [dataPoint: string]: string }> {
+    const availableObjects: { [api: string]: Set<string> } = {};
+    for (const api of new Set(targets.map((target) => target.Api))) {
+        try {
+            availableObjects[api] = await describeSObjects(restClient, apiVersion, api, signal);
+        } catch (error) {
+            logger.warn(`Unable to describe the available ${api} sObjects, querying data points without a pre-flight check:`, error.message);
+        }
+    }
+    return findSkippedDataPoints(targets, availableObjects, apiVersion);
+}
+
+async function describeSObjects(restClient: RestClient, apiVersion: string, api: 'tooling' | 'data', signal?: AbortSignal): Promise<Set<string>> {
+    const describeResult = await restClient.get(`/services/data/v${apiVersion}/${api === 'tooling' ? 'tooling/' : ''}sobjects/`, { signal });
+    return new Set(describeResult.sobjects.map((sobject: { name: string }) => sobject.name));
+}
+
+async function queryRecords(restClient: RestClient, apiVersion: string, query: string, api: 'tooling' | 'data' = 'tooling', signal?: AbortSignal): Promise<{ totalSize: number; records: any[] }> {
+    let queryResult = await restClient.get(`/services/data/v${apiVersion}/${api === 'tooling' ? 'tooling/' : ''}query/`, { params: { q: query }, signal });
+    const records = [...queryResult.records];
+    while (queryResult.nextRecordsUrl) {
+        queryResult = await restClient.get(queryResult.nextRecordsUrl, { signal });
+        records.push(...queryResult.records);
+    }
+    return { totalSize: queryResult.totalSize, records };
+}
+
+async function queryCodeComponents(restClient: RestClient, apiVersion = defaultApiVersion, signal?: AbortSignal): Promise<CodeComponents> {
+    const components: CodeComponents = {};
+    const queryComponents = async (metadataType: string, query: string, nameField: string, api: 'tooling' | 'data' = 'tooling') => {
+        const result = await queryRecords(restClient, apiVersion, query, api, signal);
+        components[metadataType] = result.records.map((record) => ({ Name: record[nameField], LastModifiedDate: record.LastModifiedDate }));
+    };
+    await Promise.all([
+        ...codeMetadataTypes.map((metadataType) => {
+            const nameField = dataPointNameFields[metadataType] ?? 'Name';
+            return queryComponents(metadataType, `SELECT ${nameField}, LastModifiedDate FROM ${metadataType} WHERE NamespacePrefix = null`, nameField);
+        }),
+        queryComponents(activeFlowType, `SELECT Label, LastModifiedDate FROM ${activeFlowType} WHERE IsActive = true`, 'Label', 'data')
+    ]);
+    return components;
+}
+
+async function findUnchangedDataPoints(dataPoints: string[], previousSummary: OrgSummary, restClient: RestClient, apiVersion = defaultApiVersion, concurrency = 4, inventory?: boolean, logger: Logger = console, signal?: AbortSignal): Promise<string[]> {
+    const unchangedDataPoints: string[] = [];
+    await mapWithConcurrency(dataPoints, concurrency, async (dataPoint) => {
+        if ((previousSummary.Errors ?? []).some((error) => error.DataPoint === dataPoint)) {
+            return;
+        }
+        const target = toDataPointTarget(dataPoint.trim());
+        try {
+            const [count, latest] = await Promise.all([
+                queryRecords(restClient, apiVersion, `SELECT COUNT() FROM ${target.Object}`, target.Api, signal),
+                queryRecords(restClient, apiVersion, `SELECT LastModifiedDate FROM ${target.Object} ORDER BY LastModifiedDate DESC LIMIT 1`, target.Api, signal)
+            ]);
+            if (isDataPointUnchanged(previousSummary.Metadata[dataPoint], count.totalSize, latest.records[0]?.LastModifiedDate, inventory)) {
+                unchangedDataPoints.push(dataPoint);
+            }
+        } catch (error) {
+            logger.warn(`Unable to detect changes of data point '${dataPoint}', querying it again:`, error.message);
+        }
+    });
+    return unchangedDataPoints;
+}
+
 interface OrgInfo {
     username: string;
     accessToken: string;
@@ -631,11 +1236,11 @@ interface OrgInfo {
     orgId: string;
 }
 
-function getOrgInfo(orgAlias?: string): OrgInfo {
+async function getOrgInfo(orgAlias?: string, runner: CommandRunner = new CliCommandRunner(), logger: Logger = console): Promise<OrgInfo> {
 
     try {
         const command = orgAlias ? `sfdx force:org:display --verbose --json --targetusername ${orgAlias}` : 'sfdx force:org:display --verbose --json';
-        const output = execSync(command, { encoding: 'utf8' });
+        const output = await runner.run(command);
         const orgInfo = JSON.parse(output);
         return {
             username: orgInfo.result.username,
@@ -644,7 +1249,7 @@ function getOrgInfo(orgAlias?: string): OrgInfo {
             orgId: orgInfo.result.id
         };
     } catch (error) {
-        console.error('Error getting org information:', error.message);
+        logger.error('Error getting org information:', error.message);
     }
     return {
         username: '',
@@ -654,30 +1259,12 @@ function getOrgInfo(orgAlias?: string): OrgInfo {
     }
 }
 
-interface PreprocessedResult {
-    Extension: string;
-    Technology: string;
-    MetadataType: string;
-    Component: string;
-    Row: ResultRow;
-}
-
-interface ResultRow {
-    Problem: string;
-    Severity: string;
-    NormalizedSeverity: string;
-    File: string;
-    Line: string;
-    Column: string;
-    Rule: string;
-    Description: string;
-    URL: string;
-    Category: string;
-    Engine: string;
+export function readScannerResults(scanResultsPath = './CLIScannerResults.json', projectDirectory?: string): PreprocessedResult[] {
+    return parseScannerJson(fs.readFileSync(scanResultsPath, 'utf8'), projectDirectory).map(toPreprocessedResult);
 }
 
-export function preprocessResults(): ProblemInfo[] {
-    const scanResultsPath = './CLIScannerResults.csv';
+/** @deprecated Reads the scanner's CSV output; use readScannerResults with its JSON output instead. */
+export function preprocessResults(scanResultsPath = './CLIScannerResults.csv'): ProblemInfo[] {
     const results = readCsvFile(scanResultsPath);
     return results;
 }
@@ -716,6 +1303,8 @@ function readCsvFile(filePath: string): ProblemInfo[] {
 }
 
 export class GetFlowCoverage {
+    public constructor(private readonly runner: CommandRunner = new CliCommandRunner()) {}
+
     public async getFlowCoverage(username: string | undefined): Promise<CoverageResult> {
         const command = 'sfdx force:data:soql:query -q "SELECT Id, ApexTestClassId, ' +
             `TestMethodName, FlowVersionId, NumElementsCovered, NumElementsNotCovered FROM FlowTestCoverage" -u ${username} -t --json`;
@@ -723,19 +1312,15 @@ export class GetFlowCoverage {
         return this.runSFDXCommand(command) as Promise<CoverageResult>;
     }
 
-    private runSFDXCommand(command: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            try {
-                const result = execSync(command, { encoding: 'utf-8' });
-                resolve(JSON.parse(result));
-            } catch (error) {
-                reject(error);
-            }
-        });
+    private async runSFDXCommand(command: string): Promise<any> {
+        const result = await this.runner.run(command);
+        return JSON.parse(result);
     }
 }
 
 export class GetFlowDefinitionViews {
+    public constructor(private readonly runner: CommandRunner = new CliCommandRunner()) {}
+
     public async getFlowDefinitionViews(username: string | undefined): Promise<FlowDefinitionViewResult> {
         const command = 'sfdx force:data:soql:query -q "SELECT ApiName, InstalledPackageName, ' +
             `ActiveVersionId, Label FROM FlowDefinitionView WHERE IsActive = true" -u ${username} --json`;
@@ -743,15 +1328,9 @@ export class GetFlowDefinitionViews {
         return this.runSFDXCommand(command) as Promise<FlowDefinitionViewResult>;
     }
 
-    private runSFDXCommand(command: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            try {
-                const result = execSync(command, { encoding: 'utf-8' });
-                resolve(JSON.parse(result));
-            } catch (error) {
-                reject(error);
-            }
-        });
+    private async runSFDXCommand(command: string): Promise<any> {
+        const result = await this.runner.run(command);
+        return JSON.parse(result);
     }
 }
 
@@ -795,22 +1374,16 @@ export interface FlowDefinitionViewResult {
     };
 }
 
-export type OrgSummary = {
-    Timestamp: string;
-    ResultState: string;
-    OrgId: string;
-    OrgInstanceURL: string;
-    Username: string;
-  } & Partial<{
-    Metadata: { [key: string]: ComponentSummary };
-    Code: CodeAnalysis;
-    HealthCheck: HealthCheckSummary;
-    Limits: LimitSummary;
-    Tests: TestSummary;
-  }>;
-
   export type UploadSummaryResult = {
     id: string;
     success: boolean;
     errors?: string[];
+    records?: UploadRecordResult[];
+}
+
+  export type UploadRecordResult = {
+    object: string;
+    id?: string;
+    success: boolean;
+    errors: string[];
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { OrgSummaryResult, PortfolioOrg, PortfolioSummary } from '../models/portfolio';
+import { OrgSummary } from '../models/summary';
+import { toNumber } from './ToNumber';
+
+export function buildPortfolio(results: OrgSummaryResult[]): PortfolioSummary {
+  const metadata: PortfolioSummary['Metadata'] = {};
+  for (const result of results) {
+    for (const dataPoint of Object.keys(result.Summary?.Metadata ?? {})) {
+      metadata[dataPoint] = metadata[dataPoint] ?? {};
+    }
+  }
+  for (const dataPoint of Object.keys(metadata)) {
+    for (const result of results) {
+      metadata[dataPoint][result.Alias] = toNumber(result.Summary?.Metadata?.[dataPoint]?.Total);
+    }
+  }
+  return {
+    Timestamp: Date.now().toString(),
+    Orgs: results.map(result => toPortfolioOrg(result)),
+    Metadata: metadata
+  };
+}
+
+function toPortfolioOrg(result: OrgSummaryResult): PortfolioOrg {
+  const summary: Partial<OrgSummary> = result.Summary ?? {};
+  const limits = (summary.Limits?.Details ?? []).filter(limit => limit.UsagePercentage !== 'N/A');
+  const highestLimit = limits.reduce((highest, limit) => (!highest || limit.UsagePercentage > highest.UsagePercentage ? limit : highest), undefined);
+  return {
+    Alias: result.Alias,
+    OrgId: summary.OrgId,
+    Username: summary.Username,
+    ResultState: summary.ResultState ?? 'Failure',
+    Error: result.Error ?? (summary.ResultState === 'Failure' ? summary.Errors?.[0]?.Message : undefined),
+    ApexCoverage: toNumber(summary.Tests?.ApexCoverageDetails?.Total),
+    FlowCoverage: toNumber(summary.Tests?.FlowCoverageDetails?.Total),
+    HealthCheckScore: toNumber(summary.HealthCheck?.Score),
+    LimitsReached: toNumber(summary.Limits?.Reached),
+    LimitsWarning: toNumber(summary.Limits?.Warning),
+    LimitsCritical: toNumber(summary.Limits?.Critical),
+    HighestLimitUsage: toNumber(highestLimit?.UsagePercentage),
+    HighestLimit: highestLimit?.Name
+  };
+}
@@ -0,0 +1,59 @@
+import events = require('events');
+
+export interface SectionSignal {
+  signal: AbortSignal;
+  dispose: () => void;
+}
+
+export function abortError(message: string, code: 'TIMEOUT' | 'ABORTED'): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+// Aborts when the parent signal aborts or when the section runs longer than its timeout.
+export function createSectionSignal(section: string, parent?: AbortSignal, timeout?: number): SectionSignal {
+  const controller = new AbortController();
+  // Every concurrent request and command of the section listens to the same signal.
+  events.setMaxListeners(0, controller.signal);
+  const abortFromParent = () => controller.abort(abortError(`Section ${section} was aborted`, 'ABORTED'));
+  if (parent?.aborted) {
+    abortFromParent();
+  } else {
+    parent?.addEventListener('abort', abortFromParent, { once: true });
+  }
+  const timer = timeout ? setTimeout(() => controller.abort(abortError(`Section ${section} timed out after ${timeout} ms`, 'TIMEOUT')), timeout) : undefined;
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', abortFromParent);
+    }
+  };
+}
+
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
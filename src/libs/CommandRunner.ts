@@ -0,0 +1,145 @@
+import { exec } from 'node:child_process';
+import fs = require('fs');
+import { AxiosRestClient, describeRequest, RestClient, RestRequestOptions } from './RestClient';
+
+export interface CommandRunner {
+  run(command: string, options?: CommandOptions): Promise<string>;
+  // REST API requests go through the client a runner creates, or straight to the org when it creates none.
+  createRestClient?(instanceUrl: string, accessToken: string): RestClient;
+}
+
+export interface CommandOptions {
+  cwd?: string;
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface RecordedCommand {
+  Command?: string;
+  Pattern?: string;
+  File?: string;
+  Error?: {
+    Message: string;
+    Stderr?: string;
+    Status?: number;
+  };
+}
+
+const manifestFileName = 'commands.json';
+
+export class CliCommandRunner implements CommandRunner {
+  public run(command: string, options: CommandOptions = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+      exec(command, { encoding: 'utf8', cwd: options.cwd, timeout: options.timeout, signal: options.signal, maxBuffer: 1024 * 1024 * 256 }, (error, stdout, stderr) => {
+        if (error) {
+          reject(Object.assign(error, { stdout, stderr, status: error.code }));
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+  }
+}
+
+// Passes a signal to every command of another runner and fails them with the abort reason once it aborts.
+export class AbortableCommandRunner implements CommandRunner {
+  public constructor(private readonly runner: CommandRunner, private readonly signal: AbortSignal) {}
+
+  public async run(command: string, options: CommandOptions = {}): Promise<string> {
+    if (this.signal.aborted) {
+      throw this.signal.reason;
+    }
+    try {
+      return await this.runner.run(command, { ...options, signal: this.signal });
+    } catch (error) {
+      throw this.signal.aborted ? this.signal.reason : error;
+    }
+  }
+}
+
+// Runs commands and REST requests through another runner and stores every output as a fixture for ReplayCommandRunner.
+export class RecordingCommandRunner implements CommandRunner {
+  private readonly recorded: RecordedCommand[] = [];
+
+  public constructor(private readonly directory: string, private readonly runner: CommandRunner = new CliCommandRunner()) {
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+  }
+
+  public async run(command: string, options: CommandOptions = {}): Promise<string> {
+    try {
+      const output = await this.runner.run(command, options);
+      const file = `${this.recorded.length + 1}.out`;
+      fs.writeFileSync(`${this.directory}/${file}`, output, 'utf8');
+      this.record({ Command: command, File: file });
+      return output;
+    } catch (error) {
+      this.record({
+        Command: command,
+        Error: { Message: error.message, Stderr: error.stderr?.toString(), Status: error.status }
+      });
+      throw error;
+    }
+  }
+
+  public createRestClient(instanceUrl: string, accessToken: string): RestClient {
+    const client = this.runner.createRestClient?.(instanceUrl, accessToken) ?? new AxiosRestClient(instanceUrl, accessToken);
+    return {
+      get: async (path: string, options: RestRequestOptions = {}) => {
+        const request = describeRequest(path, options.params);
+        try {
+          const data = await client.get(path, options);
+          const file = `${this.recorded.length + 1}.json`;
+          fs.writeFileSync(`${this.directory}/${file}`, JSON.stringify(data, null, 2), 'utf8');
+          this.record({ Command: request, File: file });
+          return data;
+        } catch (error) {
+          this.record({ Command: request, Error: { Message: error.message, Status: error.response?.status } });
+          throw error;
+        }
+      }
+    };
+  }
+
+  private record(entry: RecordedCommand) {
+    this.recorded.push(entry);
+    fs.writeFileSync(`${this.directory}/${manifestFileName}`, JSON.stringify(this.recorded, null, 2), 'utf8');
+  }
+}
+
+// Serves the outputs listed in <directory>/commands.json. Entries match a command exactly or by a
+// regular expression; a command that is run repeatedly receives its matching entries in order.
+// REST requests are looked up the same way, as commands such as 'GET /services/data/v59.0/limits/'.
+export class ReplayCommandRunner implements CommandRunner {
+  private readonly fixtures: RecordedCommand[];
+  private readonly served = new Set<RecordedCommand>();
+
+  public constructor(private readonly directory: string) {
+    this.fixtures = JSON.parse(fs.readFileSync(`${directory}/${manifestFileName}`, 'utf8')) as RecordedCommand[];
+  }
+
+  public async run(command: string): Promise<string> {
+    const matches = this.fixtures.filter(fixture =>
+      fixture.Command !== undefined ? fixture.Command === command : new RegExp(fixture.Pattern ?? '^$').test(command)
+    );
+    if (matches.length === 0) {
+      throw new Error(`No recorded output for command: ${command}`);
+    }
+    const fixture = matches.find(match => !this.served.has(match)) ?? matches[matches.length - 1];
+    this.served.add(fixture);
+    if (fixture.Error) {
+      const error: any = new Error(fixture.Error.Message);
+      error.stderr = fixture.Error.Stderr ?? '';
+      error.status = fixture.Error.Status;
+      throw error;
+    }
+    return fs.readFileSync(`${this.directory}/${fixture.File}`, 'utf8');
+  }
+
+  public createRestClient(): RestClient {
+    return {
+      get: async (path: string, options: RestRequestOptions = {}) => JSON.parse(await this.run(describeRequest(path, options.params)))
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { CodeRiskDelta, CountDelta, CoverageDelta, HealthCheckDelta, LimitDelta, SummaryDiff } from '../models/diff';
+import { HealthCheckRisk, OrgSummary, ProblemInfo } from '../models/summary';
+import { getDataPointTotal } from './DataPointTotal';
+import { loadSummary } from './LoadSummary';
+import { toNumber } from './ToNumber';
+
+export function compareSummaries(before: OrgSummary | string, after: OrgSummary | string): SummaryDiff {
+  const previous = readSummary(before);
+  const current = readSummary(after);
+  const diff: SummaryDiff = {
+    Before: { OrgId: previous.OrgId, Timestamp: previous.Timestamp },
+    After: { OrgId: current.OrgId, Timestamp: current.Timestamp }
+  };
+
+  if (previous.Metadata || current.Metadata) {
+    diff.Metadata = compareMetadata(previous, current);
+  }
+  if (previous.HealthCheck || current.HealthCheck) {
+    diff.HealthCheck = compareHealthChecks(previous, current);
+  }
+  if (previous.Limits || current.Limits) {
+    diff.Limits = compareLimits(previous, current);
+  }
+  if (previous.Tests || current.Tests) {
+    const apexBefore = previous.Tests?.ApexCoverageDetails;
+    const apexAfter = current.Tests?.ApexCoverageDetails;
+    diff.ApexCoverage = compareCoverage(
+      apexBefore?.Total, apexBefore?.Details.map(detail => ({ Name: String(detail.Name), CoveragePercentage: detail.CoveragePercentage })),
+      apexAfter?.Total, apexAfter?.Details.map(detail => ({ Name: String(detail.Name), CoveragePercentage: detail.CoveragePercentage }))
+    );
+    const flowBefore = previous.Tests?.FlowCoverageDetails;
+    const flowAfter = current.Tests?.FlowCoverageDetails;
+    diff.FlowCoverage = compareCoverage(flowBefore?.Total, flowBefore?.Details, flowAfter?.Total, flowAfter?.Details);
+  }
+  if (previous.Code || current.Code) {
+    diff.CodeRisks = compareCodeRisks(previous.Code?.RiskDetails ?? [], current.Code?.RiskDetails ?? []);
+  }
+  return diff;
+}
+
+function readSummary(summary: OrgSummary | string): OrgSummary {
+  if (typeof summary === 'string') {
+    return loadSummary(summary);
+  }
+  return summary;
+}
+
+function compareMetadata(previous: OrgSummary, current: OrgSummary): CountDelta[] {
+  const names = new Set([...Object.keys(previous.Metadata ?? {}), ...Object.keys(current.Metadata ?? {})]);
+  const deltas: CountDelta[] = [];
+  for (const name of names) {
+    const before = getDataPointTotal(previous, name);
+    const after = getDataPointTotal(current, name);
+    if (before !== after) {
+      deltas.push({ Name: name, Before: before, After: after, Change: subtract(after, before) });
+    }
+  }
+  return deltas;
+}
+
+function compareHealthChecks(previous: OrgSummary, current: OrgSummary): HealthCheckDelta {
+  const scoreBefore = toNumber(previous.HealthCheck?.Score);
+  const scoreAfter = toNumber(current.HealthCheck?.Score);
+  const risksBefore = (previous.HealthCheck?.Details ?? []).filter(risk => risk.RiskType !== 'MEETS_STANDARD');
+  const risksAfter = (current.HealthCheck?.Details ?? []).filter(risk => risk.RiskType !== 'MEETS_STANDARD');
+  const riskKey = (risk: HealthCheckRisk) => `${risk.SettingGroup}|${risk.Setting}|${risk.RiskType}`;
+  const changes = diffByKey(risksBefore, risksAfter, riskKey);
+  return {
+    ScoreBefore: scoreBefore,
+    ScoreAfter: scoreAfter,
+    ScoreChange: subtract(scoreAfter, scoreBefore),
+    NewRisks: changes.Added,
+    ResolvedRisks: changes.Removed
+  };
+}
+
+function compareLimits(previous: OrgSummary, current: OrgSummary): LimitDelta[] {
+  const limitsBefore = new Map((previous.Limits?.Details ?? []).map(limit => [limit.Name, limit]));
+  const limitsAfter = new Map((current.Limits?.Details ?? []).map(limit => [limit.Name, limit]));
+  const names = new Set([...limitsBefore.keys(), ...limitsAfter.keys()]);
+  const deltas: LimitDelta[] = [];
+  for (const name of names) {
+    const usageBefore = toNumber(limitsBefore.get(name)?.Usage);
+    const usageAfter = toNumber(limitsAfter.get(name)?.Usage);
+    if (usageBefore !== usageAfter) {
+      deltas.push({
+        Name: name,
+        Max: toNumber((limitsAfter.get(name) ?? limitsBefore.get(name)).Max),
+        UsageBefore: usageBefore,
+        UsageAfter: usageAfter,
+        Change: subtract(usageAfter, usageBefore)
+      });
+    }
+  }
+  return deltas;
+}
+
+function compareCoverage(
+  totalBefore: number | 'N/A' | undefined,
+  detailsBefore: { Name: string; CoveragePercentage: number | 'N/A' }[] | undefined,
+  totalAfter: number | 'N/A' | undefined,
+  detailsAfter: { Name: string; CoveragePercentage: number | 'N/A' }[] | undefined
+): CoverageDelta {
+  const coverageBefore = new Map((detailsBefore ?? []).map(detail => [detail.Name, toNumber(detail.CoveragePercentage)]));
+  const coverageAfter = new Map((detailsAfter ?? []).map(detail => [detail.Name, toNumber(detail.CoveragePercentage)]));
+  const names = new Set([...coverageBefore.keys(), ...coverageAfter.keys()]);
+  const details: CountDelta[] = [];
+  for (const name of names) {
+    const before = coverageBefore.get(name) ?? 'N/A';
+    const after = coverageAfter.get(name) ?? 'N/A';
+    if (before !== after) {
+      details.push({ Name: name, Before: before, After: after, Change: subtract(after, before) });
+    }
+  }
+  const before = toNumber(totalBefore);
+  const after = toNumber(totalAfter);
+  return {
+    TotalBefore: before,
+    TotalAfter: after,
+    TotalChange: subtract(after, before),
+    Details: details
+  };
+}
+
+function compareCodeRisks(risksBefore: ProblemInfo[], risksAfter: ProblemInfo[]): CodeRiskDelta {
+  // Scanner paths point into the temporary project of each run, so risks are matched on the file name only.
+  const riskKey = (risk: ProblemInfo) => {
+    const fileName = (risk.File ?? '').split(/[\\/]/).pop();
+    return `${risk.Engine}|${risk.Rule}|${fileName}|${risk.Line}|${risk.Column}`;
+  };
+  const changes = diffByKey(risksBefore, risksAfter, riskKey);
+  return { Added: changes.Added, Resolved: changes.Removed };
+}
+
+function diffByKey<T>(before: T[], after: T[], key: (item: T) => string): { Added: T[]; Removed: T[] } {
+  const remaining = new Map<string, number>();
+  for (const item of before) {
+    remaining.set(key(item), (remaining.get(key(item)) ?? 0) + 1);
+  }
+  const added: T[] = [];
+  for (const item of after) {
+    const count = remaining.get(key(item)) ?? 0;
+    if (count > 0) {
+      remaining.set(key(item), count - 1);
+    } else {
+      added.push(item);
+    }
+  }
+  const removed: T[] = [];
+  for (const item of [...before].reverse()) {
+    const count = remaining.get(key(item)) ?? 0;
+    if (count > 0) {
+      remaining.set(key(item), count - 1);
+      removed.unshift(item);
+    }
+  }
+  return { Added: added, Removed: removed };
+}
+
+function subtract(after: number | 'N/A', before: number | 'N/A'): number | 'N/A' {
+  return after === 'N/A' || before === 'N/A' ? 'N/A' : after - before;
+}
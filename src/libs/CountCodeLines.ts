@@ -1,32 +1,200 @@
 import fs = require('fs');
+import { FileLinesOfCode, LinesOfCode } from '../models/summary';
 
-export function countCodeLines(directory: string, extension: string, language: 'apex' | 'javascript'): { Total: number; Comments: number; Code: number } {
-  const codeFiles = getAllFiles(directory, extension);
-  let commentLines = 0;
-  let totalLines = 0;
-
-  codeFiles.forEach(filePath => {
-    const fileContent = fs.readFileSync(filePath, 'utf8');
-    let comments = [];
-    if (language === 'apex') {
-      comments = fileContent.match(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g) ?? [];
-    } else if (language === 'javascript') {
-      comments = fileContent.match(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g) ?? [];
-    }
-    const total = fileContent.split('\n').filter(line => line.trim() !== '').length;
-    commentLines += comments.length;
-    totalLines += total;
-  });
+export type CodeLanguage = 'apex' | 'javascript' | 'markup' | 'css';
+
+type LexerState = 'code' | 'lineComment' | 'blockComment' | 'markupComment' | 'string' | 'regex';
 
+const regexPrecedingCharacters = '(,=:[!&|?{};+-*%<>~^';
+const regexPrecedingKeywords = /(?:^|[^\w$])(?:return|typeof|case|do|else|in|of|new|delete|void|throw|instanceof|yield|await)\s*$/;
+
+export function countCodeLines(directories: string | string[], extension: string, language: CodeLanguage): LinesOfCode {
+  const files: FileLinesOfCode[] = [];
+  for (const directory of typeof directories === 'string' ? [directories] : directories) {
+    files.push(...getAllFiles(directory, extension).map(filePath => ({
+      File: filePath.substring(directory.length + 1),
+      ...countLines(fs.readFileSync(filePath, 'utf8'), language)
+    })));
+  }
   return {
-    Total: totalLines,
-    Comments: commentLines,
-    Code: totalLines - commentLines
+    ...sumLinesOfCode(files),
+    Files: files
   };
 }
 
+export function sumLinesOfCode(counts: { Total: number; Blank: number; Comments: number; Code: number }[]): LinesOfCode {
+  return counts.reduce((sum, count) => ({
+    Total: sum.Total + count.Total,
+    Blank: sum.Blank + count.Blank,
+    Comments: sum.Comments + count.Comments,
+    Code: sum.Code + count.Code
+  }), { Total: 0, Blank: 0, Comments: 0, Code: 0 });
+}
+
+// A line counts as code when it holds anything outside a comment, as a comment when it only holds
+// comment text, and as blank when it only holds whitespace.
+export function countLines(content: string, language: CodeLanguage): { Total: number; Blank: number; Comments: number; Code: number } {
+  const lines = content.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const hasCode: boolean[] = new Array(lines.length).fill(false);
+  const hasComment: boolean[] = new Array(lines.length).fill(false);
+  const supportsLineComments = language === 'apex' || language === 'javascript';
+  const supportsBlockComments = language !== 'markup';
+  const quotes = language === 'apex' ? ['\''] : language === 'javascript' ? ['\'', '"', '`'] : language === 'css' ? ['\'', '"'] : [];
+  // Brace depth of every template literal expression (`${...}`) that is currently open.
+  const templateExpressions: number[] = [];
+  let state: LexerState = 'code';
+  let quote = '';
+  let inCharacterClass = false;
+  let lastSignificant = '';
+  let line = 0;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    const next = content[index + 1];
+    if (char === '\n') {
+      line++;
+      if (state === 'lineComment' || state === 'regex' || (state === 'string' && quote !== '`')) {
+        state = 'code';
+      }
+      continue;
+    }
+    if (char === '\r') {
+      continue;
+    }
+    switch (state) {
+      case 'lineComment':
+        hasComment[line] = true;
+        break;
+      case 'blockComment':
+        hasComment[line] = true;
+        if (char === '*' && next === '/') {
+          index++;
+          state = 'code';
+        }
+        break;
+      case 'markupComment':
+        hasComment[line] = true;
+        if (content.startsWith('-->', index)) {
+          index += 2;
+          state = 'code';
+        }
+        break;
+      case 'string':
+        hasCode[line] = true;
+        if (char === '\\') {
+          if (next === '\n') {
+            line++;
+          }
+          index++;
+        } else if (quote === '`' && char === '$' && next === '{') {
+          templateExpressions.push(0);
+          index++;
+          state = 'code';
+        } else if (char === quote) {
+          state = 'code';
+          lastSignificant = ')';
+        }
+        break;
+      case 'regex':
+        hasCode[line] = true;
+        if (char === '\\') {
+          index++;
+        } else if (char === '[') {
+          inCharacterClass = true;
+        } else if (char === ']') {
+          inCharacterClass = false;
+        } else if (char === '/' && !inCharacterClass) {
+          state = 'code';
+          lastSignificant = ')';
+        }
+        break;
+      default:
+        if (/\s/.test(char)) {
+          break;
+        }
+        if (supportsLineComments && char === '/' && next === '/') {
+          hasComment[line] = true;
+          index++;
+          state = 'lineComment';
+          break;
+        }
+        if (supportsBlockComments && char === '/' && next === '*') {
+          hasComment[line] = true;
+          index++;
+          state = 'blockComment';
+          break;
+        }
+        if (language === 'markup' && content.startsWith('<!--', index)) {
+          hasComment[line] = true;
+          index += 3;
+          state = 'markupComment';
+          break;
+        }
+        hasCode[line] = true;
+        if (quotes.includes(char)) {
+          state = 'string';
+          quote = char;
+          break;
+        }
+        if (language === 'javascript' && char === '/' && isRegexStart(content, index, lastSignificant)) {
+          state = 'regex';
+          inCharacterClass = false;
+          break;
+        }
+        // An increment or decrement either ends an operand or precedes one, so a slash after it is a division.
+        if ((char === '+' || char === '-') && next === char) {
+          index++;
+          lastSignificant = ')';
+          break;
+        }
+        if (templateExpressions.length > 0) {
+          const depth = templateExpressions.length - 1;
+          if (char === '{') {
+            templateExpressions[depth]++;
+          } else if (char === '}' && templateExpressions[depth] === 0) {
+            templateExpressions.pop();
+            state = 'string';
+            quote = '`';
+            break;
+          } else if (char === '}') {
+            templateExpressions[depth]--;
+          }
+        }
+        lastSignificant = char;
+    }
+  }
+
+  let blank = 0;
+  let comments = 0;
+  let code = 0;
+  lines.forEach((text, index) => {
+    if (text.trim() === '') {
+      blank++;
+    } else if (hasCode[index]) {
+      code++;
+    } else if (hasComment[index]) {
+      comments++;
+    } else {
+      code++;
+    }
+  });
+  return { Total: lines.length, Blank: blank, Comments: comments, Code: code };
+}
+
+function isRegexStart(content: string, index: number, lastSignificant: string): boolean {
+  return lastSignificant === '' ||
+    regexPrecedingCharacters.includes(lastSignificant) ||
+    regexPrecedingKeywords.test(content.substring(Math.max(0, index - 12), index));
+}
+
 function getAllFiles(directory: string, extension: string): string[] {
   const files: string[] = [];
+  if (!fs.existsSync(directory)) {
+    return files;
+  }
   const dirents = fs.readdirSync(directory, { withFileTypes: true });
 
   for (const dirent of dirents) {
@@ -39,4 +207,4 @@ function getAllFiles(directory: string, extension: string): string[] {
   }
 
   return files;
-}
\ No newline at end of file
+}
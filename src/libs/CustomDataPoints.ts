@@ -0,0 +1,74 @@
+import fs = require('fs');
+import * as yaml from 'js-yaml';
+import { dataPoints } from '../data/DataPoints';
+import { CustomDataPoint } from '../models/dataPoints';
+import { ComponentSummary } from '../models/summary';
+
+const aggregations = ['count', 'countBy', 'maxDate'];
+const apis = ['tooling', 'data'];
+
+export function loadCustomDataPoints(configPath: string): CustomDataPoint[] {
+  const content = fs.readFileSync(configPath, 'utf8');
+  const customDataPoints = (/\.ya?ml$/i.test(configPath) ? yaml.load(content) : JSON.parse(content)) as CustomDataPoint[];
+  if (!Array.isArray(customDataPoints)) {
+    throw new Error(`Custom data points in ${configPath} must be a list.`);
+  }
+  const names = new Set<string>();
+  for (const customDataPoint of customDataPoints) {
+    if (!customDataPoint || typeof customDataPoint !== 'object') {
+      throw new Error(`Custom data points in ${configPath} must be objects, found ${JSON.stringify(customDataPoint)}.`);
+    }
+    if (!customDataPoint.Name || !customDataPoint.Object) {
+      throw new Error(`Custom data point ${JSON.stringify(customDataPoint)} needs a Name and an Object.`);
+    }
+    // Results are stored under the data point name in Metadata, so a repeated name would overwrite another count.
+    if (dataPoints.includes(customDataPoint.Name)) {
+      throw new Error(`Custom data point '${customDataPoint.Name}' has the name of a built-in data point.`);
+    }
+    if (names.has(customDataPoint.Name)) {
+      throw new Error(`Custom data point '${customDataPoint.Name}' is listed more than once.`);
+    }
+    names.add(customDataPoint.Name);
+    if (customDataPoint.Api && !apis.includes(customDataPoint.Api)) {
+      throw new Error(`Custom data point '${customDataPoint.Name}' has an unknown Api '${customDataPoint.Api}', expected 'tooling' or 'data'.`);
+    }
+    if (customDataPoint.Aggregation && !aggregations.includes(customDataPoint.Aggregation)) {
+      throw new Error(`Custom data point '${customDataPoint.Name}' has an unknown aggregation '${customDataPoint.Aggregation}'.`);
+    }
+    if (customDataPoint.Aggregation === 'countBy' && !customDataPoint.Field) {
+      throw new Error(`Custom data point '${customDataPoint.Name}' needs a Field to count by.`);
+    }
+  }
+  return customDataPoints;
+}
+
+// Aggregate queries keep large objects, such as Account, from being retrieved record by record.
+export function buildCustomQuery(customDataPoint: CustomDataPoint): string {
+  const where = customDataPoint.Where ? ` WHERE ${customDataPoint.Where}` : '';
+  switch (customDataPoint.Aggregation) {
+    case 'countBy':
+      return `SELECT ${customDataPoint.Field} groupValue, COUNT(Id) total FROM ${customDataPoint.Object}${where} GROUP BY ${customDataPoint.Field}`;
+    case 'maxDate':
+      return `SELECT COUNT(Id) total, MAX(${customDataPoint.Field ?? 'LastModifiedDate'}) maxDate FROM ${customDataPoint.Object}${where}`;
+    default:
+      return `SELECT COUNT(Id) total FROM ${customDataPoint.Object}${where}`;
+  }
+}
+
+export function summarizeCustomDataPoint(customDataPoint: CustomDataPoint, rows: { [column: string]: string }[]): ComponentSummary {
+  if (customDataPoint.Aggregation === 'countBy') {
+    const breakdown: { [value: string]: number } = {};
+    for (const row of rows) {
+      breakdown[row.groupValue || 'N/A'] = (breakdown[row.groupValue || 'N/A'] ?? 0) + Number(row.total);
+    }
+    return {
+      Total: Object.values(breakdown).reduce((total, count) => total + count, 0),
+      Breakdown: breakdown
+    };
+  }
+  const componentSummary: ComponentSummary = { Total: rows.length > 0 ? Number(rows[0].total) : 0 };
+  if (customDataPoint.Aggregation === 'maxDate' && rows.length > 0 && rows[0].maxDate) {
+    componentSummary.MaxDate = rows[0].maxDate;
+  }
+  return componentSummary;
+}
@@ -0,0 +1,23 @@
+import { DataPointTarget } from '../models/dataPoints';
+
+// Returns the reason to skip each data point whose object the org does not offer through its API.
+export function findSkippedDataPoints(targets: DataPointTarget[], availableObjects: { [api: string]: Set<string> }, apiVersion: string): { [dataPoint: string]: string } {
+  const skippedDataPoints: { [dataPoint: string]: string } = {};
+  // SOQL object names are case-insensitive, so the describe names are compared the same way.
+  const objectsByApi: { [api: string]: Set<string> } = {};
+  for (const api of Object.keys(availableObjects)) {
+    objectsByApi[api] = new Set([...availableObjects[api]].map(object => object.toLowerCase()));
+  }
+  for (const target of targets) {
+    if (target.MinApiVersion && parseFloat(apiVersion) < target.MinApiVersion) {
+      skippedDataPoints[target.Name] = `Requires API version ${target.MinApiVersion.toFixed(1)} or later`;
+      continue;
+    }
+    const objects = objectsByApi[target.Api];
+    if (objects && !objects.has(target.Object.toLowerCase())) {
+      const feature = target.Feature ? ` (requires ${target.Feature})` : '';
+      skippedDataPoints[target.Name] = `${target.Object} is not available through the ${target.Api === 'tooling' ? 'Tooling' : 'REST'} API of this org${feature}`;
+    }
+  }
+  return skippedDataPoints;
+}
@@ -0,0 +1,13 @@
+import { OrgSummary } from '../models/summary';
+import { toNumber } from './ToNumber';
+
+// Data points without records are left out of a summary, so a missing entry counts as zero unless the
+// data point failed or was skipped in that run, in which case its count is unknown.
+export function getDataPointTotal(summary: OrgSummary, dataPoint: string): number | 'N/A' {
+  const componentSummary = summary.Metadata?.[dataPoint];
+  const failed = (summary.Errors ?? []).some(error => error.DataPoint === dataPoint);
+  if (!summary.Metadata || failed || componentSummary?.Skipped) {
+    return 'N/A';
+  }
+  return toNumber(componentSummary?.Total ?? 0);
+}
@@ -0,0 +1,87 @@
+import fs = require('fs');
+import * as yaml from 'js-yaml';
+import { GateEvaluation, GatePolicy, GateResult } from '../models/gates';
+import { OrgSummary } from '../models/summary';
+import { loadSummary } from './LoadSummary';
+import { toNumber } from './ToNumber';
+
+export function evaluateGates(summary: OrgSummary | string, policy: GatePolicy | string): GateEvaluation {
+  const orgSummary = typeof summary === 'string' ? loadSummary(summary) : summary;
+  const gatePolicy = typeof policy === 'string' ? loadGatePolicy(policy) : policy;
+  const results: GateResult[] = [];
+
+  if (gatePolicy.MinApexCoverage !== undefined) {
+    results.push(atLeast('MinApexCoverage', orgSummary.Tests?.ApexCoverageDetails?.Total, gatePolicy.MinApexCoverage));
+  }
+  if (gatePolicy.MinFlowCoverage !== undefined) {
+    results.push(atLeast('MinFlowCoverage', orgSummary.Tests?.FlowCoverageDetails?.Total, gatePolicy.MinFlowCoverage));
+  }
+  if (gatePolicy.MaxTestMethodsFailed !== undefined) {
+    results.push(atMost('MaxTestMethodsFailed', orgSummary.Tests?.TestMethodsFailed, gatePolicy.MaxTestMethodsFailed));
+  }
+  if (gatePolicy.MinHealthCheckScore !== undefined) {
+    results.push(atLeast('MinHealthCheckScore', orgSummary.HealthCheck?.Score, gatePolicy.MinHealthCheckScore));
+  }
+  if (gatePolicy.MaxRisksPerLineRatio !== undefined) {
+    results.push(atMost('MaxRisksPerLineRatio', orgSummary.Code?.RisksPerLineRatio, gatePolicy.MaxRisksPerLineRatio));
+  }
+  if (gatePolicy.MaxHighSeverityRisks !== undefined) {
+    const highSeverityRisks = orgSummary.Code ? orgSummary.Code.RiskDetails.filter(risk => String(risk['Normalized Severity']) === '1').length : undefined;
+    results.push(atMost('MaxHighSeverityRisks', highSeverityRisks, gatePolicy.MaxHighSeverityRisks));
+  }
+  if (gatePolicy.MaxLimitUsage) {
+    results.push(...evaluateLimitUsage(orgSummary, gatePolicy.MaxLimitUsage));
+  }
+
+  return {
+    Passed: results.every(result => result.Passed),
+    Results: results
+  };
+}
+
+export function loadGatePolicy(policyPath: string): GatePolicy {
+  const content = fs.readFileSync(policyPath, 'utf8');
+  if (/\.ya?ml$/i.test(policyPath)) {
+    return yaml.load(content) as GatePolicy;
+  }
+  return JSON.parse(content) as GatePolicy;
+}
+
+// The '*' key sets a maximum usage percentage for every limit that has no entry of its own.
+function evaluateLimitUsage(summary: OrgSummary, maxLimitUsage: { [limitName: string]: number }): GateResult[] {
+  const limits = summary.Limits?.Details ?? [];
+  const results: GateResult[] = [];
+  for (const limitName of Object.keys(maxLimitUsage).filter(name => name !== '*')) {
+    const limit = limits.find(candidate => candidate.Name === limitName);
+    results.push(atMost(`MaxLimitUsage.${limitName}`, limit ? usagePercentage(limit.Usage, limit.Max) : undefined, maxLimitUsage[limitName]));
+  }
+  if (maxLimitUsage['*'] !== undefined) {
+    for (const limit of limits.filter(candidate => maxLimitUsage[candidate.Name] === undefined)) {
+      const percentage = usagePercentage(limit.Usage, limit.Max);
+      if (percentage !== 'N/A') {
+        results.push(atMost(`MaxLimitUsage.${limit.Name}`, percentage, maxLimitUsage['*']));
+      }
+    }
+  }
+  return results;
+}
+
+function usagePercentage(usage: number | 'N/A', max: number | 'N/A'): number | 'N/A' {
+  const numericUsage = Number(usage);
+  const numericMax = Number(max);
+  if (usage === 'N/A' || max === 'N/A' || isNaN(numericUsage) || !numericMax) {
+    return 'N/A';
+  }
+  return (numericUsage / numericMax) * 100;
+}
+
+// Values that are missing from the summary fail their rule, as the gate cannot be verified.
+function atLeast(rule: string, value: unknown, expected: number): GateResult {
+  const actual = toNumber(value);
+  return { Rule: rule, Passed: actual !== 'N/A' && actual >= expected, Actual: actual, Expected: expected, Comparison: '>=' };
+}
+
+function atMost(rule: string, value: unknown, expected: number): GateResult {
+  const actual = toNumber(value);
+  return { Rule: rule, Passed: actual !== 'N/A' && actual <= expected, Actual: actual, Expected: expected, Comparison: '<=' };
+}
@@ -0,0 +1,150 @@
+import { CodeAnalysis, CodeDetails, ComponentSummary, LinesOfCode, OrgSummary, PreprocessedResult, SectionProvenance, TestSummary } from '../models/summary';
+import { sumLinesOfCode } from './CountCodeLines';
+import { summarizeRisks, toPreprocessedResult } from './ScannerResults';
+
+export interface CodeComponent {
+  Name: string;
+  LastModifiedDate: string;
+}
+
+export type CodeComponents = { [metadataType: string]: CodeComponent[] };
+
+export type CodeComponentChanges = { [metadataType: string]: string[] };
+
+export const codeMetadataTypes = ['ApexClass', 'ApexTrigger', 'ApexPage', 'ApexComponent', 'AuraDefinitionBundle', 'LightningComponentBundle', 'StaticResource'];
+
+// Active flows are listed by label, the name their flow coverage is reported under.
+export const activeFlowType = 'FlowDefinitionView';
+
+// A data point is unchanged when neither its record count nor its most recent modification moved.
+export function isDataPointUnchanged(previous: ComponentSummary | undefined, total: number, lastModifiedDate: string | undefined, inventory?: boolean): boolean {
+  if (!previous) {
+    return total === 0;
+  }
+  if (previous.Skipped || previous.Total !== total || (inventory && !previous.Components)) {
+    return false;
+  }
+  return Date.parse(previous.LastModifiedDate) === Date.parse(lastModifiedDate);
+}
+
+export function carryDataPointForward(previous: ComponentSummary, inventory?: boolean): ComponentSummary {
+  const { Components, ...componentSummary } = previous;
+  return inventory ? { ...componentSummary, Components } : componentSummary;
+}
+
+// Components modified since the previous summary, or known to it but gone from the org, are collected again.
+export function findChangedComponents(components: CodeComponents, previousCode: CodeAnalysis, since: number): CodeComponentChanges {
+  const knownComponents: { [metadataType: string]: Set<string> } = {};
+  const addKnownComponent = (metadataType: string, component: string) => {
+    knownComponents[metadataType] = (knownComponents[metadataType] ?? new Set<string>()).add(component);
+  };
+  forEachTypeLines(previousCode.LineDetails, (metadataType, lines) => {
+    for (const file of lines?.Files ?? []) {
+      addKnownComponent(metadataType, componentOfFile(file.File));
+    }
+  });
+  for (const result of (previousCode.RiskDetails ?? []).map(toPreprocessedResult)) {
+    addKnownComponent(result.MetadataType, result.Component);
+  }
+  const changes: CodeComponentChanges = {};
+  for (const metadataType of codeMetadataTypes) {
+    const currentComponents = components[metadataType] ?? [];
+    const currentNames = new Set(currentComponents.map(component => component.Name));
+    const changed = [
+      ...currentComponents.filter(component => Date.parse(component.LastModifiedDate) > since).map(component => component.Name),
+      ...[...(knownComponents[metadataType] ?? [])].filter(component => !currentNames.has(component))
+    ];
+    if (changed.length > 0) {
+      changes[metadataType] = changed;
+    }
+  }
+  return changes;
+}
+
+// Only changed components that still exist can be retrieved; deleted ones just drop out of the merge.
+export function toRetrieveMetadata(changes: CodeComponentChanges, components: CodeComponents): string[] {
+  const metadata: string[] = [];
+  for (const metadataType of Object.keys(changes)) {
+    const currentNames = new Set((components[metadataType] ?? []).map(component => component.Name));
+    metadata.push(...changes[metadataType].filter(name => currentNames.has(name)).map(name => `${metadataType}:${name}`));
+  }
+  return metadata;
+}
+
+// Apex tests exercise active flows as well as Apex, so a change to either invalidates the test results and the flow coverage they produced.
+export function hasTestedCodeChanged(components: CodeComponents, previousTests: TestSummary, since: number): boolean {
+  const apexComponents = [...(components.ApexClass ?? []), ...(components.ApexTrigger ?? [])];
+  const activeFlows = components[activeFlowType] ?? [];
+  const currentNames = new Set(apexComponents.map(component => component.Name));
+  const currentFlows = new Set(activeFlows.map(flow => flow.Name));
+  const knownNames = [
+    ...(previousTests.ApexCoverageDetails?.Details ?? []).map(coverage => coverage.Name),
+    ...(previousTests.MethodResults ?? []).map(methodResult => methodResult.ClassName)
+  ];
+  const knownFlows = (previousTests.FlowCoverageDetails?.Details ?? []).map(coverage => coverage.Name);
+  return [...apexComponents, ...activeFlows].some(component => Date.parse(component.LastModifiedDate) > since) ||
+    knownNames.some(name => name && name !== 'N/A' && !currentNames.has(name)) ||
+    knownFlows.some(name => name && !currentFlows.has(name));
+}
+
+// Summaries written before per-file line counts existed cannot be merged, as the lines of their unchanged components are unknown.
+export function hasFileLineCounts(previousCode: CodeAnalysis): boolean {
+  let complete = Boolean(previousCode.LineDetails);
+  forEachTypeLines(previousCode.LineDetails, (metadataType, lines) => {
+    complete = complete && Array.isArray(lines?.Files);
+  });
+  return complete;
+}
+
+// Files and risks of changed components are replaced by the partial results; everything else is kept from the previous analysis.
+export function mergeCodeAnalysis(previousCode: CodeAnalysis, changes: CodeComponentChanges, codeLines: CodeDetails, preprocessedResults: PreprocessedResult[], hotspotCount = 10): CodeAnalysis {
+  const isChanged = (metadataType: string, component: string) => (changes[metadataType] ?? []).includes(component);
+  const lineDetails: CodeDetails = JSON.parse(JSON.stringify(codeLines));
+  for (const section of Object.keys(lineDetails) as (keyof CodeDetails)[]) {
+    const sectionLines = lineDetails[section];
+    const previousDetails: { [metadataType: string]: LinesOfCode } = previousCode.LineDetails?.[section]?.Details ?? {};
+    for (const [metadataType, lines] of Object.entries<LinesOfCode>(sectionLines.Details)) {
+      const files = [
+        ...(previousDetails[metadataType]?.Files ?? []).filter(file => !isChanged(metadataType, componentOfFile(file.File))),
+        ...(lines.Files ?? [])
+      ];
+      Object.assign(lines, sumLinesOfCode(files), { Files: files });
+    }
+    Object.assign(sectionLines, sumLinesOfCode(Object.values<LinesOfCode>(sectionLines.Details)));
+  }
+  const results = [
+    ...(previousCode.RiskDetails ?? []).map(toPreprocessedResult).filter(result => !isChanged(result.MetadataType, result.Component)),
+    ...preprocessedResults
+  ].map((result, index) => ({ ...result, Row: { ...result.Row, Problem: String(index + 1) } }));
+  const linesOfCode = sumLinesOfCode([lineDetails.Apex, lineDetails.JavaScript, lineDetails.Visualforce, lineDetails.HTML, lineDetails.CSS]).Code;
+  return {
+    Risks: results.length,
+    RiskDetails: results.map(result => result.Row),
+    LinesOfCode: linesOfCode,
+    RisksPerLineRatio: linesOfCode > 0 ? results.length / linesOfCode : 0,
+    LineDetails: lineDetails,
+    ...summarizeRisks(results, hotspotCount)
+  };
+}
+
+export function carriedForward(previousSummary: OrgSummary, section: string): SectionProvenance {
+  const { Refreshed, ...previousProvenance } = previousSummary.Provenance?.Sections?.[section] ?? {} as SectionProvenance;
+  return {
+    ...previousProvenance,
+    Source: 'CarriedForward',
+    Timestamp: previousProvenance.Timestamp ?? previousSummary.Timestamp
+  };
+}
+
+// Line counts list files relative to their metadata folder, so bundles and static resource folders are named by the first segment.
+function componentOfFile(file: string): string {
+  return file.split(/[\\/]/)[0].split('.')[0];
+}
+
+function forEachTypeLines(lineDetails: CodeDetails | undefined, callback: (metadataType: string, lines: LinesOfCode | undefined) => void) {
+  for (const section of Object.keys(lineDetails ?? {}) as (keyof CodeDetails)[]) {
+    for (const [metadataType, lines] of Object.entries<LinesOfCode>(lineDetails[section]?.Details ?? {})) {
+      callback(metadataType, lines);
+    }
+  }
+}
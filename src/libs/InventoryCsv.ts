@@ -0,0 +1,20 @@
+import { OrgSummary } from '../models/summary';
+import { toCsv } from './Csv';
+
+export function inventoryToCsv(summary: OrgSummary): string {
+  const rows: unknown[][] = [];
+  for (const dataPoint of Object.keys(summary.Metadata ?? {}).sort()) {
+    for (const component of summary.Metadata[dataPoint].Components ?? []) {
+      rows.push([
+        dataPoint,
+        component.Id,
+        component.Name,
+        component.CreatedBy,
+        component.CreatedDate,
+        component.LastModifiedBy,
+        component.LastModifiedDate
+      ]);
+    }
+  }
+  return toCsv(['DataPoint', 'Id', 'Name', 'CreatedBy', 'CreatedDate', 'LastModifiedBy', 'LastModifiedDate'], rows);
+}
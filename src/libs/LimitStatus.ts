@@ -0,0 +1,18 @@
+import { LimitStatus } from '../models/summary';
+
+export interface LimitThresholds {
+  Warning: number;
+  Critical: number;
+}
+
+export const defaultLimitThresholds: LimitThresholds = { Warning: 80, Critical: 95 };
+
+export function getLimitStatus(usagePercentage: number | 'N/A', thresholds: LimitThresholds): LimitStatus {
+  if (usagePercentage === 'N/A') {
+    return 'N/A';
+  }
+  if (usagePercentage >= thresholds.Critical) {
+    return 'Critical';
+  }
+  return usagePercentage >= thresholds.Warning ? 'Warning' : 'OK';
+}
@@ -0,0 +1,145 @@
+import fs = require('fs');
+import path = require('path');
+import Ajv, { ValidateFunction } from 'ajv';
+import { LinesOfCode, OrgSummary } from '../models/summary';
+import { defaultLimitThresholds, getLimitStatus } from './LimitStatus';
+import { summarizeRisks, toPreprocessedResult } from './ScannerResults';
+import { toNumber } from './ToNumber';
+
+export const summarySchemaVersion = 3;
+
+const schemaPath = path.join(__dirname, '../../schema/orgsummary.schema.json');
+
+// Each migration upgrades a summary from the version it is keyed by to the next one.
+const migrations: { [fromVersion: number]: (summary: any) => void } = {
+  1: migrateFromVersion1,
+  2: migrateFromVersion2
+};
+
+let validateSchema: ValidateFunction;
+
+export function loadSummary(summaryPath: string): OrgSummary {
+  let summary: any;
+  try {
+    summary = JSON.parse(fs.readFileSync(summaryPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read summary ${summaryPath}: ${error.message}`);
+  }
+  const migratedSummary = migrateSummary(summary);
+  const errors = validateSummary(migratedSummary);
+  if (errors.length > 0) {
+    throw new Error(`Invalid summary ${summaryPath}: ${errors.join('; ')}`);
+  }
+  return migratedSummary;
+}
+
+export function migrateSummary(summary: any): OrgSummary {
+  const version = summary.SchemaVersion ?? 1;
+  if (version > summarySchemaVersion) {
+    throw new Error(`Summary schema version ${version} is newer than the supported version ${summarySchemaVersion}`);
+  }
+  const migratedSummary = JSON.parse(JSON.stringify(summary));
+  for (let fromVersion = version; fromVersion < summarySchemaVersion; fromVersion++) {
+    migrations[fromVersion](migratedSummary);
+    migratedSummary.SchemaVersion = fromVersion + 1;
+  }
+  return migratedSummary;
+}
+
+export function validateSummary(summary: unknown): string[] {
+  if (!validateSchema) {
+    validateSchema = new Ajv({ allErrors: true }).compile(JSON.parse(fs.readFileSync(schemaPath, 'utf8')));
+  }
+  if (validateSchema(summary)) {
+    return [];
+  }
+  return validateSchema.errors.map(error => `${error.instancePath || '/'} ${error.message}`);
+}
+
+// Version 1 covers the summaries written before SchemaVersion existed.
+function migrateFromVersion1(summary: any): void {
+  coerceNumbers(summary);
+  if (summary.Tests) {
+    summary.Tests.MethodResults = summary.Tests.MethodResults ?? [];
+    summary.Tests.SlowestTests = summary.Tests.SlowestTests ?? [];
+    summary.Tests.FailuresByClass = summary.Tests.FailuresByClass ?? {};
+    for (const coverage of summary.Tests.ApexCoverageDetails?.Details ?? []) {
+      coverage.Name = String(coverage.Name);
+    }
+  }
+  if (summary.Code?.LineDetails) {
+    const lineDetails = summary.Code.LineDetails;
+    const sections: { [section: string]: string[] } = {
+      Apex: ['ApexClass', 'ApexTrigger'],
+      JavaScript: ['AuraDefinitionBundle', 'LightningComponentBundle', 'StaticResource'],
+      Visualforce: ['ApexPage', 'ApexComponent'],
+      HTML: ['LightningComponentBundle'],
+      CSS: ['AuraDefinitionBundle', 'LightningComponentBundle']
+    };
+    for (const section of Object.keys(sections)) {
+      lineDetails[section] = { ...toLinesOfCode(lineDetails[section]), Details: lineDetails[section]?.Details ?? {} };
+      for (const type of sections[section]) {
+        lineDetails[section].Details[type] = toLinesOfCode(lineDetails[section].Details[type]);
+      }
+    }
+  }
+  if (summary.Limits) {
+    for (const limit of summary.Limits.Details ?? []) {
+      const max = Number(limit.Max);
+      const usage = Number(limit.Usage);
+      limit.UsagePercentage = max > 0 && !isNaN(usage) ? Number(((usage / max) * 100).toFixed(2)) : 'N/A';
+      limit.Status = getLimitStatus(limit.UsagePercentage, defaultLimitThresholds);
+    }
+    summary.Limits.Warning = (summary.Limits.Details ?? []).filter((limit: any) => limit.Status === 'Warning').length;
+    summary.Limits.Critical = (summary.Limits.Details ?? []).filter((limit: any) => limit.Status === 'Critical').length;
+  }
+}
+
+// Version 3 added the risk breakdowns, which are derived from the risks the summary already lists.
+function migrateFromVersion2(summary: any): void {
+  coerceNumbers(summary);
+  if (summary.Code) {
+    const risks = (summary.Code.RiskDetails ?? []).filter((risk: any) => risk.Rule || risk.File);
+    // The CSV ingestion counted the trailing empty line of the scanner output as a risk.
+    Object.assign(summary.Code, {
+      Risks: risks.length,
+      RisksPerLineRatio: summary.Code.LinesOfCode > 0 ? risks.length / summary.Code.LinesOfCode : 0,
+      RiskDetails: risks,
+      ...summarizeRisks(risks.map(toPreprocessedResult))
+    });
+  }
+}
+
+// Health Check scores, test counts and coverage used to be stored as the strings of the CLI's CSV output.
+function coerceNumbers(summary: any): void {
+  if (summary.HealthCheck) {
+    summary.HealthCheck.Score = toNumber(summary.HealthCheck.Score);
+  }
+  if (summary.Tests) {
+    for (const count of ['ApexUnitTests', 'TestDuration', 'TestMethodsCompleted', 'TestMethodsFailed']) {
+      summary.Tests[count] = Number(summary.Tests[count]) || 0;
+    }
+    for (const coverage of [summary.Tests.ApexCoverageDetails, summary.Tests.FlowCoverageDetails]) {
+      if (coverage) {
+        coverage.Total = toNumber(coverage.Total);
+        for (const detail of coverage.Details ?? []) {
+          detail.CoveragePercentage = Number(detail.CoveragePercentage) || 0;
+        }
+      }
+    }
+  }
+}
+
+// Older line counts had no blank lines, so whatever is neither comment nor code is counted as blank.
+function toLinesOfCode(lines: any): LinesOfCode {
+  const total = Number(lines?.Total) || 0;
+  const comments = Number(lines?.Comments) || 0;
+  const code = Number(lines?.Code) || 0;
+  return {
+    ...lines,
+    Total: total,
+    Blank: lines?.Blank ?? Math.max(0, total - comments - code),
+    Comments: comments,
+    Code: code
+  };
+}
@@ -0,0 +1,12 @@
+export interface Logger {
+  log(message?: unknown, ...parameters: unknown[]): void;
+  warn(message?: unknown, ...parameters: unknown[]): void;
+  error(message?: unknown, ...parameters: unknown[]): void;
+}
+
+// Discards all output, e.g. when the summary JSON is written to stdout.
+export const silentLogger: Logger = {
+  log: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
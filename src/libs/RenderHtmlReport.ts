@@ -0,0 +1,288 @@
+import { CodeDetails, LicenseUsage, Limit, LinesOfCode, OrgSummary, ProblemInfo } from '../models/summary';
+import { severityLabels } from './ScannerResults';
+
+
+const styles = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #181818; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 2px solid #0176d3; padding-bottom: 0.25rem; margin-top: 2.5rem; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; }
+  th, td { border: 1px solid #dddbda; padding: 0.35rem 0.6rem; text-align: left; font-size: 0.9rem; }
+  th { background: #f3f3f3; }
+  .meta { color: #706e6b; }
+  .state-Completed { color: #2e844a; } .state-Partial { color: #dd7a01; } .state-Failure { color: #ba0517; }
+  .bar { background: #ecebea; width: 12rem; height: 0.8rem; border-radius: 0.4rem; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: #2e844a; }
+  .bar .high { background: #dd7a01; } .bar .full { background: #ba0517; }
+  .tiles { display: flex; flex-wrap: wrap; gap: 1rem; }
+  .tile { border: 1px solid #dddbda; border-radius: 0.25rem; padding: 0.75rem 1rem; min-width: 9rem; }
+  .tile strong { display: block; font-size: 1.4rem; }
+`;
+
+export function renderHtmlReport(summary: OrgSummary): string {
+  const sections = [
+    renderMetadata(summary),
+    renderCode(summary),
+    renderHealthCheck(summary),
+    renderSecurity(summary),
+    renderLimits(summary),
+    renderUsers(summary),
+    renderData(summary),
+    renderTests(summary),
+    renderErrors(summary)
+  ].filter(section => section !== '');
+  const date = isNaN(Number(summary.Timestamp)) ? summary.Timestamp : new Date(Number(summary.Timestamp)).toISOString();
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Org Summary ${escapeHtml(summary.OrgId)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>Org Summary</h1>
+<p class="meta">${escapeHtml(summary.OrgId)} &middot; ${escapeHtml(summary.Username)} &middot; ${escapeHtml(summary.OrgInstanceURL)} &middot; ${escapeHtml(date)}</p>
+<p>Result: <strong class="state-${escapeHtml(summary.ResultState)}">${escapeHtml(summary.ResultState)}</strong></p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderMetadata(summary: OrgSummary): string {
+  if (!summary.Metadata) {
+    return '';
+  }
+  const rows = Object.keys(summary.Metadata).sort().map(name => {
+    const component = summary.Metadata[name];
+    return [name, component.Total, component.LastModifiedDate ?? '', component.SkipReason ?? ''];
+  });
+  return `<h2>Metadata</h2>\n${renderTable(['Type', 'Total', 'Last Modified', 'Skipped'], rows)}`;
+}
+
+function renderCode(summary: OrgSummary): string {
+  if (!summary.Code) {
+    return '';
+  }
+  const code = summary.Code;
+  const lineRows = (details: CodeDetails) => Object.entries(details).flatMap(([language, lines]) => [
+    [language, lines.Total, lines.Blank ?? '', lines.Comments, lines.Code],
+    ...Object.entries(lines.Details as { [type: string]: LinesOfCode }).map(([type, typeLines]) => [`&nbsp;&nbsp;${type}`, typeLines.Total, typeLines.Blank ?? '', typeLines.Comments, typeLines.Code])
+  ]);
+  const risksBySeverity = new Map<string, ProblemInfo[]>();
+  for (const risk of code.RiskDetails) {
+    const severity = severityLabels[risk['Normalized Severity']] ?? risk['Normalized Severity'] ?? risk.Severity ?? 'Unknown';
+    risksBySeverity.set(severity, [...(risksBySeverity.get(severity) ?? []), risk]);
+  }
+  const riskTables = [...risksBySeverity.keys()].sort(compareSeverities).map(severity => {
+    const rows = risksBySeverity.get(severity).map(risk => [risk.File, risk.Line, risk.Rule, risk.Category, risk.Description]);
+    return `<h3>${escapeHtml(severity)} (${rows.length})</h3>\n${renderTable(['File', 'Line', 'Rule', 'Category', 'Description'], rows)}`;
+  });
+  return `<h2>Code</h2>
+<div class="tiles">
+${renderTile('Lines of Code', code.LinesOfCode)}
+${renderTile('Risks', code.Risks)}
+${renderTile('Risks per Line', formatNumber(code.RisksPerLineRatio, 4))}
+</div>
+<h3>Lines</h3>
+${renderTable(['Type', 'Total', 'Blank', 'Comments', 'Code'], lineRows(code.LineDetails), [0])}
+${renderBreakdown('Risks by Category', 'Category', code.RisksByCategory)}
+${renderBreakdown('Risks by Engine', 'Engine', code.RisksByEngine)}
+${renderBreakdown('Risks by Rule', 'Rule', code.RisksByRule)}
+${(code.Hotspots ?? []).length > 0 ? `<h3>Hotspots</h3>\n${renderTable(['File', 'Type', 'Component', 'Risks', 'High Severity'], code.Hotspots.map(hotspot => [hotspot.File, hotspot.MetadataType, hotspot.Component, hotspot.Risks, hotspot.HighSeverityRisks]))}` : ''}
+${riskTables.join('\n')}`;
+}
+
+function renderHealthCheck(summary: OrgSummary): string {
+  if (!summary.HealthCheck) {
+    return '';
+  }
+  const healthCheck = summary.HealthCheck;
+  const rows = healthCheck.Details
+    .filter(risk => risk.RiskType !== 'MEETS_STANDARD')
+    .map(risk => [risk.SettingGroup, risk.Setting, risk.RiskType, risk.SettingRiskCategory, risk.OrgValue]);
+  return `<h2>Health Check</h2>
+<div class="tiles">
+${renderTile('Score', healthCheck.Score)}
+${renderTile('Criteria', healthCheck.Criteria)}
+${renderTile('Compliant', healthCheck.Compliant)}
+${renderTile('Risks', healthCheck.Risks)}
+</div>
+${renderTable(['Group', 'Setting', 'Risk Type', 'Category', 'Org Value'], rows)}`;
+}
+
+function renderSecurity(summary: OrgSummary): string {
+  if (!summary.Security) {
+    return '';
+  }
+  const security = summary.Security;
+  const permissionRows = Object.values(security.Permissions)
+    .map(permission => [permission.Label, permission.Profiles, permission.PermissionSets, permission.PermissionSetGroups, permission.ActiveUsers]);
+  const grantRows = security.Details
+    .map(grant => [grant.Label, grant.Type, grant.Permissions.map(permission => security.Permissions[permission]?.Label ?? permission).join(', '), grant.ActiveAssignees, grant.PermissionSetGroups.join(', ')]);
+  return `<h2>Security</h2>
+<div class="tiles">
+${renderTile('Users with High-Risk Permissions', security.UsersWithHighRiskPermissions)}
+${renderTile('Granting Profiles and Permission Sets', security.Details.length)}
+</div>
+${renderTable(['Permission', 'Profiles', 'Permission Sets', 'Permission Set Groups', 'Active Users'], permissionRows)}
+${renderTable(['Granted By', 'Type', 'High-Risk Permissions', 'Active Assignees', 'In Permission Set Groups'], grantRows)}`;
+}
+
+function renderLimits(summary: OrgSummary): string {
+  if (!summary.Limits) {
+    return '';
+  }
+  const limits = summary.Limits;
+  const rows = limits.Details.flatMap(limit => [limit, ...(limit.Applications ?? []).map(application => ({ ...application, Name: `${limit.Name} / ${application.Name}` }))])
+    .map(limit => [limit.Name, limit.Usage, limit.Max, formatNumber(limit.UsagePercentage, 1), limit.Status, renderUsageBar(limit)]);
+  return `<h2>Limits</h2>
+<div class="tiles">
+${renderTile('Applicable', limits.Applicable)}
+${renderTile('Reached', limits.Reached)}
+${renderTile('Unattained', limits.Unattained)}
+${renderTile('Warning', limits.Warning ?? 0)}
+${renderTile('Critical', limits.Critical ?? 0)}
+</div>
+${renderTable(['Limit', 'Usage', 'Max', 'Usage %', 'Status', ''], rows, [5])}`;
+}
+
+function renderUsers(summary: OrgSummary): string {
+  if (!summary.Users) {
+    return '';
+  }
+  const users = summary.Users;
+  const renderLicenses = (licenses: LicenseUsage[]) => renderTable(['License', 'Status', 'Total', 'Used', 'Remaining', 'Usage %'],
+    licenses.map(license => [license.Label, license.Status, license.Total, license.Used, license.Remaining, formatNumber(license.UsagePercentage, 1)]));
+  return `<h2>Users</h2>
+<div class="tiles">
+${renderTile('Active', users.Active)}
+${renderTile('Inactive', users.Inactive)}
+${renderTile('Frozen', users.Frozen)}
+${renderTile(`No Login in ${users.InactiveDays} Days`, users.NotLoggedInRecently)}
+${renderTile('Never Logged In', users.NeverLoggedIn)}
+</div>
+<h3>User Licenses</h3>
+${renderLicenses(users.UserLicenses)}
+<h3>Permission Set Licenses</h3>
+${renderLicenses(users.PermissionSetLicenses)}`;
+}
+
+function renderData(summary: OrgSummary): string {
+  if (!summary.Data) {
+    return '';
+  }
+  const data = summary.Data;
+  const hasGrowth = data.RecordGrowth !== undefined;
+  const headers = hasGrowth ? ['Object', 'Custom', 'Records', 'Previous', 'Growth', 'Growth %'] : ['Object', 'Custom', 'Records'];
+  const rows = data.Largest.map(objectCount => [objectCount.Name, objectCount.Custom ? 'Yes' : 'No', objectCount.Records,
+    ...(hasGrowth ? [objectCount.PreviousRecords, objectCount.Growth, formatNumber(objectCount.GrowthPercentage, 1)] : [])]);
+  return `<h2>Data</h2>
+<div class="tiles">
+${renderTile('Records', data.TotalRecords)}
+${renderTile('Standard Records', data.StandardRecords)}
+${renderTile('Custom Records', data.CustomRecords)}
+${hasGrowth ? renderTile('Record Growth', data.RecordGrowth) : ''}
+${renderTile('Data Storage %', formatNumber(data.DataStorage.UsagePercentage, 1))}
+${renderTile('File Storage %', formatNumber(data.FileStorage.UsagePercentage, 1))}
+</div>
+${renderTable(['Storage', 'Used MB', 'Max MB', 'Remaining MB', 'Usage %'], [
+    ['Data', data.DataStorage.UsedMB, data.DataStorage.MaxMB, data.DataStorage.RemainingMB, formatNumber(data.DataStorage.UsagePercentage, 1)],
+    ['File', data.FileStorage.UsedMB, data.FileStorage.MaxMB, data.FileStorage.RemainingMB, formatNumber(data.FileStorage.UsagePercentage, 1)]
+  ])}
+<h3>Largest Objects</h3>
+${renderTable(headers, rows)}`;
+}
+
+function renderTests(summary: OrgSummary): string {
+  if (!summary.Tests) {
+    return '';
+  }
+  const tests = summary.Tests;
+  const apexRows = tests.ApexCoverageDetails.Details.map(coverage => [coverage.Name, formatNumber(coverage.CoveragePercentage, 2)]);
+  const flowRows = tests.FlowCoverageDetails.Details.map(coverage => [coverage.Name, formatNumber(coverage.CoveragePercentage, 2)]);
+  const failureRows = Object.keys(tests.FailuresByClass ?? {}).sort().flatMap(className =>
+    tests.FailuresByClass[className].map(failure => [className, failure.MethodName, failure.Outcome, failure.Message, failure.StackTrace])
+  );
+  const slowestRows = (tests.SlowestTests ?? []).map(test => [test.ClassName, test.MethodName, test.RunTime]);
+  return `<h2>Tests</h2>
+<div class="tiles">
+${renderTile('Outcome', tests.TestOutcome)}
+${renderTile('Methods Completed', tests.TestMethodsCompleted)}
+${renderTile('Methods Failed', tests.TestMethodsFailed)}
+${renderTile('Duration', tests.TestDuration)}
+${renderTile('Apex Coverage', `${formatNumber(tests.ApexCoverageDetails.Total, 2)}%`)}
+${renderTile('Flow Coverage', `${formatNumber(tests.FlowCoverageDetails.Total, 2)}%`)}
+</div>
+<h3>Failures</h3>
+${renderTable(['Class', 'Method', 'Outcome', 'Message', 'Stack Trace'], failureRows)}
+<h3>Slowest Tests</h3>
+${renderTable(['Class', 'Method', 'Run Time (ms)'], slowestRows)}
+<h3>Apex Coverage</h3>
+${renderTable(['Class or Trigger', 'Coverage %'], apexRows)}
+<h3>Flow Coverage</h3>
+${renderTable(['Flow', 'Coverage %'], flowRows)}`;
+}
+
+function renderErrors(summary: OrgSummary): string {
+  if (!summary.Errors || summary.Errors.length === 0) {
+    return '';
+  }
+  const rows = summary.Errors.map(error => [error.Section, error.DataPoint ?? '', error.Code, error.Message]);
+  return `<h2>Errors</h2>\n${renderTable(['Section', 'Data Point', 'Code', 'Message'], rows)}`;
+}
+
+// Columns listed in rawColumns hold markup produced by this renderer and are not escaped.
+function renderTable(headers: string[], rows: unknown[][], rawColumns: number[] = []): string {
+  if (rows.length === 0) {
+    return '<p class="meta">None</p>';
+  }
+  const head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows.map(row =>
+    `<tr>${row.map((cell, index) => `<td>${rawColumns.includes(index) ? String(cell) : escapeHtml(cell)}</td>`).join('')}</tr>`
+  ).join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function renderBreakdown(title: string, label: string, counts?: { [value: string]: number }): string {
+  if (!counts || Object.keys(counts).length === 0) {
+    return '';
+  }
+  const rows = Object.keys(counts).sort((first, second) => counts[second] - counts[first] || first.localeCompare(second)).map(value => [value, counts[value]]);
+  return `<h3>${escapeHtml(title)}</h3>\n${renderTable([label, 'Risks'], rows)}`;
+}
+
+function renderTile(label: string, value: unknown): string {
+  return `<div class="tile"><strong>${escapeHtml(value)}</strong>${escapeHtml(label)}</div>`;
+}
+
+function renderUsageBar(limit: Limit): string {
+  const max = Number(limit.Max);
+  const usage = Number(limit.Usage);
+  if (!max || isNaN(usage)) {
+    return '';
+  }
+  const percentage = Math.min(100, Math.max(0, (usage / max) * 100));
+  const level = limit.Status === 'Critical' || percentage >= 100 ? 'full' : limit.Status === 'Warning' || (!limit.Status && percentage >= 80) ? 'high' : '';
+  return `<div class="bar" title="${percentage.toFixed(1)}%"><span class="${level}" style="width: ${percentage.toFixed(1)}%"></span></div>`;
+}
+
+function compareSeverities(first: string, second: string): number {
+  const order = ['High', 'Moderate', 'Low'];
+  const rank = (severity: string) => (order.includes(severity) ? order.indexOf(severity) : order.length);
+  return rank(first) - rank(second) || first.localeCompare(second);
+}
+
+function formatNumber(value: unknown, decimals: number): string {
+  const numeric = Number(value);
+  return value === 'N/A' || value === undefined || isNaN(numeric) ? 'N/A' : String(Number(numeric.toFixed(decimals)));
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,29 @@
+import axios from 'axios';
+
+export interface RestClient {
+  get(path: string, options?: RestRequestOptions): Promise<any>;
+}
+
+export interface RestRequestOptions {
+  params?: { [name: string]: string };
+  signal?: AbortSignal;
+}
+
+// Sends requests for paths such as /services/data/v59.0/limits/ to the instance of an org.
+export class AxiosRestClient implements RestClient {
+  public constructor(private readonly instanceUrl: string, private readonly accessToken: string) {}
+
+  public async get(path: string, options: RestRequestOptions = {}): Promise<any> {
+    const response = await axios.get(`${this.instanceUrl}${path}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+      params: options.params,
+      signal: options.signal
+    });
+    return response.data;
+  }
+}
+
+// Requests are recorded and replayed under this name, which leaves out the instance URL and access token.
+export function describeRequest(path: string, params?: { [name: string]: string }): string {
+  return params ? `GET ${path}?${new URLSearchParams(params).toString()}` : `GET ${path}`;
+}
@@ -0,0 +1,114 @@
+import path = require('path');
+import { CodeAnalysis, PreprocessedResult, ProblemInfo, RiskHotspot } from '../models/summary';
+
+interface ScannerFileResult {
+  engine: string;
+  fileName: string;
+  violations: {
+    line: number | string;
+    column: number | string;
+    severity: number;
+    normalizedSeverity?: number;
+    ruleName: string;
+    category: string;
+    url?: string;
+    message: string;
+  }[];
+}
+
+export type RiskBreakdown = Pick<CodeAnalysis, 'RisksBySeverity' | 'RisksByCategory' | 'RisksByEngine' | 'RisksByRule' | 'Hotspots'>;
+
+export const severityLabels: { [normalizedSeverity: string]: string } = { '1': 'High', '2': 'Moderate', '3': 'Low' };
+
+const technologies: { [extension: string]: string } = {
+  cls: 'Apex',
+  trigger: 'Apex',
+  js: 'JavaScript',
+  page: 'Visualforce',
+  component: 'Visualforce',
+  html: 'HTML',
+  css: 'CSS',
+  xml: 'Metadata'
+};
+
+const metadataTypes: { [folder: string]: string } = {
+  classes: 'ApexClass',
+  triggers: 'ApexTrigger',
+  pages: 'ApexPage',
+  components: 'ApexComponent',
+  aura: 'AuraDefinitionBundle',
+  lwc: 'LightningComponentBundle',
+  staticresources: 'StaticResource'
+};
+
+// The scanner reports one entry per file; every violation becomes a risk with its file relative to the project.
+export function parseScannerJson(output: string, projectDirectory?: string): ProblemInfo[] {
+  const start = output.indexOf('[');
+  if (start === -1) {
+    return [];
+  }
+  const fileResults = JSON.parse(output.slice(start)) as ScannerFileResult[];
+  const risks: ProblemInfo[] = [];
+  for (const fileResult of fileResults) {
+    const file = (projectDirectory ? path.relative(projectDirectory, fileResult.fileName) : fileResult.fileName).replace(/\\/g, '/');
+    for (const violation of fileResult.violations ?? []) {
+      risks.push({
+        Problem: String(risks.length + 1),
+        Severity: String(violation.severity),
+        'Normalized Severity': String(violation.normalizedSeverity ?? violation.severity),
+        File: file,
+        Line: String(violation.line ?? ''),
+        Column: String(violation.column ?? ''),
+        Rule: violation.ruleName,
+        Description: (violation.message ?? '').trim(),
+        URL: violation.url ?? '',
+        Category: violation.category,
+        Engine: fileResult.engine
+      });
+    }
+  }
+  return risks;
+}
+
+export function toPreprocessedResult(risk: ProblemInfo): PreprocessedResult {
+  const segments = (risk.File ?? '').split(/[\\/]/);
+  const fileName = segments[segments.length - 1];
+  const extension = fileName.includes('.') ? fileName.split('.').pop().toLowerCase() : '';
+  const folderIndex = segments.findIndex(segment => metadataTypes[segment.toLowerCase()]);
+  // Bundles and static resources are named after the folder or file right below their metadata folder.
+  const component = folderIndex >= 0 && folderIndex < segments.length - 1 ? segments[folderIndex + 1] : fileName;
+  return {
+    Extension: extension,
+    Technology: technologies[extension] ?? 'Other',
+    MetadataType: folderIndex >= 0 ? metadataTypes[segments[folderIndex].toLowerCase()] : 'Unknown',
+    Component: component.split('.')[0],
+    Row: risk
+  };
+}
+
+export function summarizeRisks(results: PreprocessedResult[], hotspotCount = 10): RiskBreakdown {
+  const countBy = (key: (result: PreprocessedResult) => string) => {
+    const counts: { [value: string]: number } = {};
+    for (const result of results) {
+      const value = key(result) || 'Unknown';
+      counts[value] = (counts[value] ?? 0) + 1;
+    }
+    return counts;
+  };
+  const hotspots = new Map<string, RiskHotspot>();
+  for (const result of results) {
+    const hotspot = hotspots.get(result.Row.File) ?? { File: result.Row.File, MetadataType: result.MetadataType, Component: result.Component, Risks: 0, HighSeverityRisks: 0 };
+    hotspot.Risks++;
+    hotspot.HighSeverityRisks += result.Row['Normalized Severity'] === '1' ? 1 : 0;
+    hotspots.set(result.Row.File, hotspot);
+  }
+  return {
+    RisksBySeverity: countBy(result => severityLabels[result.Row['Normalized Severity']] ?? result.Row['Normalized Severity']),
+    RisksByCategory: countBy(result => result.Row.Category),
+    RisksByEngine: countBy(result => result.Row.Engine),
+    RisksByRule: countBy(result => result.Row.Rule),
+    Hotspots: [...hotspots.values()]
+      .sort((first, second) => second.Risks - first.Risks || second.HighSeverityRisks - first.HighSeverityRisks || first.File.localeCompare(second.File))
+      .slice(0, hotspotCount)
+  };
+}
@@ -0,0 +1,47 @@
+import fs = require('fs');
+import path = require('path');
+
+const ignoredFolders = ['node_modules', '.sfdx', '.sf', '.git'];
+
+// Projects without an sfdx-project.json are treated as a single package directory at their root.
+export function getPackageDirectories(projectDirectory: string): string[] {
+  const projectFile = path.join(projectDirectory, 'sfdx-project.json');
+  if (!fs.existsSync(projectFile)) {
+    return ['.'];
+  }
+  let project: any;
+  try {
+    project = JSON.parse(fs.readFileSync(projectFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Unable to read ${projectFile}: ${error.message}`);
+  }
+  const packageDirectories: string[] = (project.packageDirectories ?? [])
+    .map((packageDirectory: { path?: string }) => packageDirectory.path)
+    .filter((packagePath: string) => packagePath && fs.existsSync(path.join(projectDirectory, packagePath)));
+  if (packageDirectories.length === 0) {
+    throw new Error(`No existing package directories are listed in ${projectFile}`);
+  }
+  return packageDirectories;
+}
+
+// Source format allows metadata folders at any depth of a package directory, not only under main/default.
+export function findMetadataFolders(projectDirectory: string, folderName: string): string[] {
+  const folders: string[] = [];
+  const search = (directory: string) => {
+    for (const dirent of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (!dirent.isDirectory() || ignoredFolders.includes(dirent.name)) {
+        continue;
+      }
+      const fullPath = `${directory}/${dirent.name}`;
+      if (dirent.name === folderName) {
+        folders.push(fullPath);
+      } else {
+        search(fullPath);
+      }
+    }
+  };
+  for (const packageDirectory of getPackageDirectories(projectDirectory)) {
+    search(path.join(projectDirectory, packageDirectory).replace(/\\/g, '/'));
+  }
+  return folders;
+}
@@ -0,0 +1,51 @@
+import { DataSummary, ObjectRecordCount, OrgSummary, StorageUsage } from '../models/summary';
+
+export const defaultTopObjects = 10;
+
+// Record counts come from the recordCount resource and storage from the DataStorageMB and FileStorageMB limits.
+export function summarizeData(recordCounts: { name: string; count: number }[], limits: any, topCount = defaultTopObjects, previous?: OrgSummary): DataSummary {
+  const previousRecords: { [objectName: string]: number } = {};
+  for (const objectCount of previous?.Data?.Details ?? []) {
+    previousRecords[objectCount.Name] = objectCount.Records;
+  }
+  const details = recordCounts
+    .map((recordCount): ObjectRecordCount => {
+      const objectCount: ObjectRecordCount = { Name: recordCount.name, Custom: recordCount.name.endsWith('__c'), Records: Number(recordCount.count) || 0 };
+      if (previous?.Data) {
+        const before = previousRecords[recordCount.name] ?? 0;
+        objectCount.PreviousRecords = before;
+        objectCount.Growth = objectCount.Records - before;
+        objectCount.GrowthPercentage = before > 0 ? Number(((objectCount.Growth / before) * 100).toFixed(2)) : 'N/A';
+      }
+      return objectCount;
+    })
+    .sort((first, second) => second.Records - first.Records || first.Name.localeCompare(second.Name));
+  const sumRecords = (objectCounts: ObjectRecordCount[]) => objectCounts.reduce((total, objectCount) => total + objectCount.Records, 0);
+  const totalRecords = sumRecords(details);
+  const dataSummary: DataSummary = {
+    TotalRecords: totalRecords,
+    StandardRecords: sumRecords(details.filter(objectCount => !objectCount.Custom)),
+    CustomRecords: sumRecords(details.filter(objectCount => objectCount.Custom)),
+    Objects: details.filter(objectCount => objectCount.Records > 0).length,
+    DataStorage: toStorageUsage(limits?.DataStorageMB),
+    FileStorage: toStorageUsage(limits?.FileStorageMB),
+    Largest: details.slice(0, topCount),
+    Details: details
+  };
+  if (previous?.Data) {
+    dataSummary.PreviousTimestamp = previous.Timestamp;
+    dataSummary.RecordGrowth = totalRecords - previous.Data.TotalRecords;
+  }
+  return dataSummary;
+}
+
+function toStorageUsage(limitInfo: { Max?: number; Remaining?: number } | undefined): StorageUsage {
+  const max = Number(limitInfo?.Max) || 0;
+  const remaining = Number(limitInfo?.Remaining) || 0;
+  return {
+    MaxMB: max,
+    UsedMB: max - remaining,
+    RemainingMB: remaining,
+    UsagePercentage: max > 0 ? Number((((max - remaining) / max) * 100).toFixed(2)) : 'N/A'
+  };
+}
@@ -0,0 +1,48 @@
+import { highRiskPermissions } from '../data/HighRiskPermissions';
+import { PermissionGrant, SecuritySummary } from '../models/summary';
+
+export function highRiskPermissionFilter(permissions = Object.keys(highRiskPermissions)): string {
+  return permissions.map(permission => `Permissions${permission} = true`).join(' OR ');
+}
+
+// Profiles and permission set groups are backed by a permission set of their own, which is what grants their permissions.
+export function summarizePermissions(
+  permissionSets: any[],
+  activeAssignees: { [permissionSetId: string]: number },
+  groupComponents: any[],
+  activeUsers: { [permission: string]: number },
+  usersWithHighRiskPermissions: number
+): SecuritySummary {
+  const groupsByPermissionSet: { [permissionSetId: string]: string[] } = {};
+  for (const groupComponent of groupComponents) {
+    const groupName = groupComponent.PermissionSetGroup?.DeveloperName;
+    groupsByPermissionSet[groupComponent.PermissionSetId] = [...(groupsByPermissionSet[groupComponent.PermissionSetId] ?? []), groupName];
+  }
+  const details: PermissionGrant[] = permissionSets.map((permissionSet): PermissionGrant => {
+    const type = permissionSet.IsOwnedByProfile ? 'Profile' : permissionSet.PermissionSetGroupId ? 'PermissionSetGroup' : 'PermissionSet';
+    return {
+      Name: type === 'Profile' ? permissionSet.Profile?.Name : type === 'PermissionSetGroup' ? permissionSet.PermissionSetGroup?.DeveloperName : permissionSet.Name,
+      Label: type === 'Profile' ? permissionSet.Profile?.Name : type === 'PermissionSetGroup' ? permissionSet.PermissionSetGroup?.MasterLabel : permissionSet.Label,
+      Type: type,
+      Permissions: Object.keys(highRiskPermissions).filter(permission => permissionSet[`Permissions${permission}`] === true),
+      ActiveAssignees: activeAssignees[permissionSet.Id] ?? 0,
+      PermissionSetGroups: (groupsByPermissionSet[permissionSet.Id] ?? []).sort()
+    };
+  }).sort((first, second) => second.ActiveAssignees - first.ActiveAssignees || String(first.Name).localeCompare(String(second.Name)));
+  const permissions: SecuritySummary['Permissions'] = {};
+  for (const permission of Object.keys(highRiskPermissions)) {
+    const grants = details.filter(grant => grant.Permissions.includes(permission));
+    permissions[permission] = {
+      Label: highRiskPermissions[permission],
+      Profiles: grants.filter(grant => grant.Type === 'Profile').length,
+      PermissionSets: grants.filter(grant => grant.Type === 'PermissionSet').length,
+      PermissionSetGroups: grants.filter(grant => grant.Type === 'PermissionSetGroup').length,
+      ActiveUsers: activeUsers[permission] ?? 0
+    };
+  }
+  return {
+    UsersWithHighRiskPermissions: usersWithHighRiskPermissions,
+    Permissions: permissions,
+    Details: details
+  };
+}
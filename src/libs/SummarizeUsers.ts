@@ -0,0 +1,23 @@
+import { LicenseUsage } from '../models/summary';
+
+export const defaultInactiveDays = 90;
+
+// UserLicense and PermissionSetLicense share their usage fields but name their API name field differently.
+export function toLicenseUsage(record: any): LicenseUsage {
+  const total = Number(record.TotalLicenses) || 0;
+  const used = Number(record.UsedLicenses) || 0;
+  return {
+    Name: record.DeveloperName ?? record.Name,
+    Label: record.MasterLabel ?? record.Name,
+    Status: record.Status,
+    Total: total,
+    Used: used,
+    Remaining: total - used,
+    UsagePercentage: total > 0 ? Number(((used / total) * 100).toFixed(2)) : 'N/A',
+    ...(record.ExpirationDate ? { ExpirationDate: record.ExpirationDate } : {})
+  };
+}
+
+export function sortLicenseUsage(licenses: LicenseUsage[]): LicenseUsage[] {
+  return [...licenses].sort((first, second) => second.Used - first.Used || first.Label.localeCompare(second.Label));
+}
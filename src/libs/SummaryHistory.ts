@@ -0,0 +1,77 @@
+import fs = require('fs');
+import { SeriesPoint, SummaryIndexEntry } from '../models/history';
+import { OrgSummary } from '../models/summary';
+import { getDataPointTotal } from './DataPointTotal';
+import { loadSummary } from './LoadSummary';
+import { Logger } from './Logger';
+import { toNumber } from './ToNumber';
+
+// Summaries are read from the layout written by summarizeOrg: <rootDirectory>/<orgId>/<timestamp>/orgsummary.json
+export function indexSummaries(rootDirectory: string): { [orgId: string]: SummaryIndexEntry[] } {
+  const index: { [orgId: string]: SummaryIndexEntry[] } = {};
+  if (!fs.existsSync(rootDirectory)) {
+    return index;
+  }
+  for (const orgDirectory of fs.readdirSync(rootDirectory, { withFileTypes: true })) {
+    if (orgDirectory.isDirectory()) {
+      const entries = listSummaries(rootDirectory, orgDirectory.name);
+      if (entries.length > 0) {
+        index[orgDirectory.name] = entries;
+      }
+    }
+  }
+  return index;
+}
+
+export function listSummaries(rootDirectory: string, orgId: string): SummaryIndexEntry[] {
+  const orgDirectory = `${rootDirectory}/${orgId}`;
+  if (!fs.existsSync(orgDirectory)) {
+    return [];
+  }
+  return fs.readdirSync(orgDirectory, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory() && fs.existsSync(`${orgDirectory}/${dirent.name}/orgsummary.json`))
+    .map(dirent => ({ OrgId: orgId, Timestamp: dirent.name, Path: `${orgDirectory}/${dirent.name}/orgsummary.json` }))
+    .sort((first, second) => Number(first.Timestamp) - Number(second.Timestamp));
+}
+
+export function getLatestSummary(rootDirectory: string, orgId: string, logger: Logger = console): OrgSummary | undefined {
+  const entries = listSummaries(rootDirectory, orgId);
+  for (let index = entries.length - 1; index >= 0; index--) {
+    const summary = readSummary(entries[index], logger);
+    if (summary) {
+      return summary;
+    }
+  }
+  return undefined;
+}
+
+export function getSeries(rootDirectory: string, orgId: string, select: (summary: OrgSummary) => unknown, lastRuns?: number, logger: Logger = console): SeriesPoint[] {
+  const entries = listSummaries(rootDirectory, orgId);
+  const selectedEntries = lastRuns ? entries.slice(-lastRuns) : entries;
+  const series: SeriesPoint[] = [];
+  for (const entry of selectedEntries) {
+    const summary = readSummary(entry, logger);
+    if (summary) {
+      series.push({ Timestamp: entry.Timestamp, Value: toNumber(select(summary)) });
+    }
+  }
+  return series;
+}
+
+export function getCoverageSeries(rootDirectory: string, orgId: string, coverage: 'Apex' | 'Flow', lastRuns?: number, logger: Logger = console): SeriesPoint[] {
+  return getSeries(rootDirectory, orgId, summary => (coverage === 'Apex' ? summary.Tests?.ApexCoverageDetails?.Total : summary.Tests?.FlowCoverageDetails?.Total), lastRuns, logger);
+}
+
+export function getMetadataSeries(rootDirectory: string, orgId: string, dataPoint: string, lastRuns?: number, logger: Logger = console): SeriesPoint[] {
+  return getSeries(rootDirectory, orgId, summary => getDataPointTotal(summary, dataPoint), lastRuns, logger);
+}
+
+// A corrupt or newer summary leaves a gap in the history instead of failing every series of the org.
+function readSummary(entry: SummaryIndexEntry, logger: Logger = console): OrgSummary | undefined {
+  try {
+    return loadSummary(entry.Path);
+  } catch (error) {
+    logger.warn(`Skipping summary ${entry.Path}:`, error.message);
+    return undefined;
+  }
+}
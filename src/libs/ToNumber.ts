@@ -0,0 +1,7 @@
+export function toNumber(value: unknown): number | 'N/A' {
+  if (value === undefined || value === null || value === '' || value === 'N/A') {
+    return 'N/A';
+  }
+  const numeric = Number(value);
+  return isNaN(numeric) ? 'N/A' : numeric;
+}
@@ -0,0 +1,26 @@
+  export interface CustomDataPoint {
+    Name: string;
+    Object: string;
+    Api?: 'tooling' | 'data';
+    Where?: string;
+    Aggregation?: 'count' | 'countBy' | 'maxDate';
+    Field?: string;
+  }
+
+  export interface DataPointDefinition {
+    Name: string;
+    Label: string;
+    Category: string;
+    Api: 'tooling' | 'data';
+    Feature?: string;
+    MinApiVersion?: number;
+    NameField?: string;
+  }
+
+  export interface DataPointTarget {
+    Name: string;
+    Object: string;
+    Api: 'tooling' | 'data';
+    Feature?: string;
+    MinApiVersion?: number;
+  }
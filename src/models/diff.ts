@@ -0,0 +1,52 @@
+import { HealthCheckRisk, ProblemInfo } from './summary';
+
+  export interface SummaryDiff {
+    Before: SummaryReference;
+    After: SummaryReference;
+    Metadata?: CountDelta[];
+    HealthCheck?: HealthCheckDelta;
+    Limits?: LimitDelta[];
+    ApexCoverage?: CoverageDelta;
+    FlowCoverage?: CoverageDelta;
+    CodeRisks?: CodeRiskDelta;
+  }
+
+  export interface SummaryReference {
+    OrgId: string;
+    Timestamp: string;
+  }
+
+  export interface CountDelta {
+    Name: string;
+    Before: number | 'N/A';
+    After: number | 'N/A';
+    Change: number | 'N/A';
+  }
+
+  export interface HealthCheckDelta {
+    ScoreBefore: number | 'N/A';
+    ScoreAfter: number | 'N/A';
+    ScoreChange: number | 'N/A';
+    NewRisks: HealthCheckRisk[];
+    ResolvedRisks: HealthCheckRisk[];
+  }
+
+  export interface LimitDelta {
+    Name: string;
+    Max: number | 'N/A';
+    UsageBefore: number | 'N/A';
+    UsageAfter: number | 'N/A';
+    Change: number | 'N/A';
+  }
+
+  export interface CoverageDelta {
+    TotalBefore: number | 'N/A';
+    TotalAfter: number | 'N/A';
+    TotalChange: number | 'N/A';
+    Details: CountDelta[];
+  }
+
+  export interface CodeRiskDelta {
+    Added: ProblemInfo[];
+    Resolved: ProblemInfo[];
+  }
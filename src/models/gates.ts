@@ -0,0 +1,22 @@
+  export interface GatePolicy {
+    MinApexCoverage?: number;
+    MinFlowCoverage?: number;
+    MaxTestMethodsFailed?: number;
+    MinHealthCheckScore?: number;
+    MaxRisksPerLineRatio?: number;
+    MaxHighSeverityRisks?: number;
+    MaxLimitUsage?: { [limitName: string]: number };
+  }
+
+  export interface GateEvaluation {
+    Passed: boolean;
+    Results: GateResult[];
+  }
+
+  export interface GateResult {
+    Rule: string;
+    Passed: boolean;
+    Actual: number | 'N/A';
+    Expected: number;
+    Comparison: '>=' | '<=';
+  }
@@ -0,0 +1,10 @@
+  export interface SummaryIndexEntry {
+    OrgId: string;
+    Timestamp: string;
+    Path: string;
+  }
+
+  export interface SeriesPoint {
+    Timestamp: string;
+    Value: number | 'N/A';
+  }
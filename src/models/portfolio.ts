@@ -0,0 +1,34 @@
+import { OrgSummary } from './summary';
+
+  export interface PortfolioSummary {
+    Timestamp: string;
+    Orgs: PortfolioOrg[];
+    Metadata: { [dataPoint: string]: { [alias: string]: number | 'N/A' } };
+  }
+
+  export interface PortfolioOrg {
+    Alias: string;
+    OrgId?: string;
+    Username?: string;
+    ResultState: string;
+    Error?: string;
+    ApexCoverage: number | 'N/A';
+    FlowCoverage: number | 'N/A';
+    HealthCheckScore: number | 'N/A';
+    LimitsReached: number | 'N/A';
+    LimitsWarning: number | 'N/A';
+    LimitsCritical: number | 'N/A';
+    HighestLimitUsage: number | 'N/A';
+    HighestLimit?: string;
+  }
+
+  export interface OrgSummaryResult {
+    Alias: string;
+    Summary?: OrgSummary;
+    Error?: string;
+  }
+
+  export interface SummarizeOrgsResult {
+    Summaries: OrgSummaryResult[];
+    Portfolio: PortfolioSummary;
+  }
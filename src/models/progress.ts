@@ -0,0 +1,32 @@
+import { SummaryError } from './summary';
+
+  export interface SectionStartedEvent {
+    Type: 'SectionStarted';
+    Section: string;
+  }
+
+  export interface SectionFinishedEvent {
+    Type: 'SectionFinished';
+    Section: string;
+    Completed: boolean;
+  }
+
+  export interface DataPointQueriedEvent {
+    Type: 'DataPointQueried';
+    DataPoint: string;
+    Index: number;
+    Total: number;
+  }
+
+  export interface TestJobStatusEvent {
+    Type: 'TestJobStatus';
+    JobId: string;
+    Status: string;
+  }
+
+  export interface ErrorEvent {
+    Type: 'Error';
+    Error: SummaryError;
+  }
+
+  export type ProgressEvent = SectionStartedEvent | SectionFinishedEvent | DataPointQueriedEvent | TestJobStatusEvent | ErrorEvent;
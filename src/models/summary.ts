@@ -1,12 +1,66 @@
+  export type OrgSummary = {
+    SchemaVersion: number;
+    Timestamp: string;
+    ResultState: string;
+    OrgId: string;
+    OrgInstanceURL: string;
+    Username: string;
+  } & Partial<{
+    Metadata: { [key: string]: ComponentSummary };
+    Code: CodeAnalysis;
+    HealthCheck: HealthCheckSummary;
+    Security: SecuritySummary;
+    Limits: LimitSummary;
+    Users: UserSummary;
+    Data: DataSummary;
+    Tests: TestSummary;
+    Errors: SummaryError[];
+    Provenance: SummaryProvenance;
+  }>;
+
+  export interface SummaryProvenance {
+    PreviousTimestamp?: string;
+    Sections: { [section: string]: SectionProvenance };
+  }
+
+  export interface SectionProvenance {
+    Source: ProvenanceSource;
+    Timestamp: string;
+    Refreshed?: string[];
+    SourcePath?: string;
+  }
+
+  export type ProvenanceSource = 'Collected' | 'Incremental' | 'CarriedForward';
+
+  export interface SummaryError {
+    Section: string;
+    DataPoint?: string;
+    Code: string;
+    Message: string;
+    Unsupported: boolean;
+  }
+
   export interface TestSummary {
     ApexUnitTests: number;
     TestDuration: number;
     TestMethodsCompleted: number;
     TestMethodsFailed: number;
     TestOutcome: string;
+    MethodResults: TestMethodResult[];
+    SlowestTests: TestMethodResult[];
+    FailuresByClass: { [className: string]: TestMethodResult[] };
     ApexCoverageDetails: TestCoverageApex;
     FlowCoverageDetails: TestCoverageFlow;
   }
+
+  export interface TestMethodResult {
+    ClassName: string;
+    MethodName: string;
+    Outcome: string;
+    Message: string;
+    StackTrace: string;
+    RunTime: number;
+  }
   
   export interface CodeAnalysis {
     LinesOfCode: number;
@@ -14,26 +68,50 @@
     RisksPerLineRatio: number;
     LineDetails: CodeDetails;
     RiskDetails: ProblemInfo[];
+    RisksBySeverity: { [severity: string]: number };
+    RisksByCategory: { [category: string]: number };
+    RisksByEngine: { [engine: string]: number };
+    RisksByRule: { [rule: string]: number };
+    Hotspots: RiskHotspot[];
+  }
+
+  export interface RiskHotspot {
+    File: string;
+    MetadataType: string;
+    Component: string;
+    Risks: number;
+    HighSeverityRisks: number;
   }
   
   export interface CodeDetails {
-    Apex: {
-      Total: number;
-      Comments: number;
-      Code: number;
+    Apex: LinesOfCode & {
+      Details: {
+        ApexClass: LinesOfCode;
+        ApexTrigger: LinesOfCode;
+      };
+    };
+    JavaScript: LinesOfCode & {
       Details: {
-        ApexClass: { Total: number; Comments: number; Code: number };
-        ApexTrigger: { Total: number; Comments: number; Code: number };
+        AuraDefinitionBundle: LinesOfCode;
+        LightningComponentBundle: LinesOfCode;
+        StaticResource: LinesOfCode;
       };
     };
-    JavaScript: {
-      Total: number;
-      Comments: number;
-      Code: number;
+    Visualforce: LinesOfCode & {
       Details: {
-        AuraDefinitionBundle: { Total: number; Comments: number; Code: number };
-        LightningComponentBundle: { Total: number; Comments: number; Code: number };
-        StaticResource: { Total: number; Comments: number; Code: number };
+        ApexPage: LinesOfCode;
+        ApexComponent: LinesOfCode;
+      };
+    };
+    HTML: LinesOfCode & {
+      Details: {
+        LightningComponentBundle: LinesOfCode;
+      };
+    };
+    CSS: LinesOfCode & {
+      Details: {
+        AuraDefinitionBundle: LinesOfCode;
+        LightningComponentBundle: LinesOfCode;
       };
     };
   }
@@ -52,15 +130,39 @@
     Engine: string;
   }
   
+  export interface PreprocessedResult {
+    Extension: string;
+    Technology: string;
+    MetadataType: string;
+    Component: string;
+    Row: ProblemInfo;
+  }
+
   export interface ComponentSummary {
     Total: number | 'N/A';
     LastModifiedDate?: string;
+    Components?: ComponentRecord[];
+    Breakdown?: { [value: string]: number };
+    MaxDate?: string;
+    Skipped?: boolean;
+    SkipReason?: string;
+  }
+
+  export interface ComponentRecord {
+    Id: string;
+    Name?: string;
+    CreatedBy: string;
+    CreatedDate: string;
+    LastModifiedBy: string;
+    LastModifiedDate: string;
   }
   
   export interface LimitSummary {
     Applicable: number;
     Reached: number;
     Unattained: number;
+    Warning: number;
+    Critical: number;
     Details: Limit[];
   }
   
@@ -80,10 +182,84 @@
   }
   
   export interface ApexClassCoverage {
-    Name: number | 'N/A';
+    Name: string;
     CoveragePercentage: number | 'N/A';
   }
   
+  export interface SecuritySummary {
+    UsersWithHighRiskPermissions: number;
+    Permissions: { [permission: string]: HighRiskPermissionSummary };
+    Details: PermissionGrant[];
+  }
+
+  export interface HighRiskPermissionSummary {
+    Label: string;
+    Profiles: number;
+    PermissionSets: number;
+    PermissionSetGroups: number;
+    ActiveUsers: number;
+  }
+
+  export interface PermissionGrant {
+    Name: string;
+    Label: string;
+    Type: 'Profile' | 'PermissionSet' | 'PermissionSetGroup';
+    Permissions: string[];
+    ActiveAssignees: number;
+    PermissionSetGroups: string[];
+  }
+
+  export interface UserSummary {
+    Active: number;
+    Inactive: number;
+    Frozen: number;
+    NeverLoggedIn: number;
+    InactiveDays: number;
+    NotLoggedInRecently: number;
+    UserLicenses: LicenseUsage[];
+    PermissionSetLicenses: LicenseUsage[];
+  }
+
+  export interface LicenseUsage {
+    Name: string;
+    Label: string;
+    Status: string;
+    Total: number;
+    Used: number;
+    Remaining: number;
+    UsagePercentage: number | 'N/A';
+    ExpirationDate?: string;
+  }
+
+  export interface DataSummary {
+    TotalRecords: number;
+    StandardRecords: number;
+    CustomRecords: number;
+    Objects: number;
+    DataStorage: StorageUsage;
+    FileStorage: StorageUsage;
+    Largest: ObjectRecordCount[];
+    Details: ObjectRecordCount[];
+    PreviousTimestamp?: string;
+    RecordGrowth?: number;
+  }
+
+  export interface StorageUsage {
+    MaxMB: number;
+    UsedMB: number;
+    RemainingMB: number;
+    UsagePercentage: number | 'N/A';
+  }
+
+  export interface ObjectRecordCount {
+    Name: string;
+    Custom: boolean;
+    Records: number;
+    PreviousRecords?: number;
+    Growth?: number;
+    GrowthPercentage?: number | 'N/A';
+  }
+
   export interface HealthCheckSummary {
     Score: number | 'N/A';
     Criteria: number | 'N/A';
@@ -107,10 +283,25 @@
     Max: number | 'N/A';
     Remaining: number | 'N/A';
     Usage: number | 'N/A';
+    UsagePercentage: number | 'N/A';
+    Status: LimitStatus;
+    Applications?: Limit[];
   }
+
+  export type LimitStatus = 'OK' | 'Warning' | 'Critical' | 'N/A';
   
   export interface LinesOfCode {
     Total: number;
+    Blank: number;
+    Comments: number;
+    Code: number;
+    Files?: FileLinesOfCode[];
+  }
+
+  export interface FileLinesOfCode {
+    File: string;
+    Total: number;
+    Blank: number;
     Comments: number;
     Code: number;
   }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import assert = require('node:assert/strict');
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { CommandRunner, RecordingCommandRunner, ReplayCommandRunner, silentLogger, summarizeOrg } from '../src';
+
+const fixtures = path.join(__dirname, 'fixtures/replay');
+
+describe('command runners', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'orgsummary-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays recorded REST requests', async () => {
+    const runner: CommandRunner = {
+      run: async () => '',
+      createRestClient: () => ({ get: async (requestPath, options) => ({ requestPath, query: options?.params?.q }) })
+    };
+    const recordedClient = new RecordingCommandRunner(directory, runner).createRestClient('https://example.my.salesforce.com', 'token');
+    const recorded = await recordedClient.get('/services/data/v59.0/query/', { params: { q: 'SELECT Id FROM User' } });
+
+    const replayedClient = new ReplayCommandRunner(directory).createRestClient();
+    assert.deepEqual(await replayedClient.get('/services/data/v59.0/query/', { params: { q: 'SELECT Id FROM User' } }), recorded);
+    await assert.rejects(replayedClient.get('/services/data/v59.0/limits/'), /No recorded output for command: GET \/services\/data\/v59.0\/limits\//);
+  });
+
+  it('summarizes REST sections from replayed requests', async () => {
+    const summary = await summarizeOrg({
+      metadata: '',
+      limits: true,
+      data: true,
+      runner: new ReplayCommandRunner(fixtures),
+      logger: silentLogger,
+      outputdirectory: directory
+    });
+    assert.equal(summary.ResultState, 'Completed');
+    assert.equal(summary.Limits.Applicable, 3);
+    assert.equal(summary.Data.TotalRecords, 150);
+    assert.equal(summary.Data.DataStorage.UsedMB, 1);
+  });
+});
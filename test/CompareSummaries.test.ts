@@ -0,0 +1,44 @@
+import assert = require('node:assert/strict');
+import { describe, it } from 'node:test';
+import { compareSummaries, OrgSummary } from '../src';
+
+function summary(timestamp: string, extra: Partial<OrgSummary>): OrgSummary {
+  return {
+    SchemaVersion: 3,
+    Timestamp: timestamp,
+    ResultState: 'Completed',
+    OrgId: '00D000000000001AAA',
+    Username: 'admin@example.com',
+    OrgInstanceURL: 'https://example.my.salesforce.com',
+    Errors: [],
+    ...extra
+  };
+}
+
+describe('compareSummaries', () => {
+  it('counts a data point without an entry as zero', () => {
+    const diff = compareSummaries(
+      summary('1', { Metadata: { ApexClass: { Total: 5 }, Flow: { Total: 2 } } }),
+      summary('2', { Metadata: { ApexClass: { Total: 7 } } })
+    );
+    assert.deepEqual(diff.Metadata, [
+      { Name: 'ApexClass', Before: 5, After: 7, Change: 2 },
+      { Name: 'Flow', Before: 2, After: 0, Change: -2 }
+    ]);
+  });
+
+  it('reports failed and skipped data points as N/A', () => {
+    const diff = compareSummaries(
+      summary('1', { Metadata: { ApexClass: { Total: 5 }, Flow: { Total: 2 }, WorkflowRule: { Total: 'N/A', Skipped: true, SkipReason: 'Not available' } } }),
+      summary('2', {
+        Metadata: { Flow: { Total: 'N/A', Skipped: true, SkipReason: 'Not available' }, WorkflowRule: { Total: 3 } },
+        Errors: [{ Section: 'Metadata', DataPoint: 'ApexClass', Code: 'ERROR', Message: 'Query failed', Unsupported: false }]
+      })
+    );
+    assert.deepEqual(diff.Metadata, [
+      { Name: 'ApexClass', Before: 5, After: 'N/A', Change: 'N/A' },
+      { Name: 'Flow', Before: 2, After: 'N/A', Change: 'N/A' },
+      { Name: 'WorkflowRule', Before: 'N/A', After: 3, Change: 'N/A' }
+    ]);
+  });
+});
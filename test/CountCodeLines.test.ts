@@ -0,0 +1,14 @@
+import assert = require('node:assert/strict');
+import { describe, it } from 'node:test';
+import { countLines } from '../src/libs/CountCodeLines';
+
+describe('countLines', () => {
+  it('counts a line comment after a regular expression', () => {
+    assert.deepEqual(countLines('const pattern = /a\\/b/; // slashes\n// only a comment\n', 'javascript'), { Total: 2, Blank: 0, Comments: 1, Code: 1 });
+  });
+
+  it('reads a slash after an increment or decrement as a division', () => {
+    assert.deepEqual(countLines('x = a++ / 2 // c /* not a block comment\nnext();\n', 'javascript'), { Total: 2, Blank: 0, Comments: 0, Code: 2 });
+    assert.deepEqual(countLines('let half = count-- / 2; /* halved\nbefore the decrement\n*/\n', 'javascript'), { Total: 3, Blank: 0, Comments: 2, Code: 1 });
+  });
+});
@@ -0,0 +1,73 @@
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import assert = require('node:assert/strict');
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { loadSummary, ReplayCommandRunner, silentLogger, summarizeOrg } from '../src';
+
+const fixtures = path.join(__dirname, 'fixtures/replay');
+
+describe('loadSummary', () => {
+  let outputDirectory: string;
+
+  beforeEach(() => {
+    outputDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'orgsummary-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDirectory, { recursive: true, force: true });
+  });
+
+  it('loads a summary saved by summarizeOrg', async () => {
+    const summary = await summarizeOrg({
+      outputdirectory: outputDirectory,
+      metadata: '',
+      healthcheck: true,
+      tests: true,
+      runner: new ReplayCommandRunner(fixtures),
+      logger: silentLogger
+    });
+    assert.equal(summary.ResultState, 'Completed');
+
+    const loadedSummary = loadSummary(path.join(outputDirectory, summary.OrgId, summary.Timestamp, 'orgsummary.json'));
+    assert.deepEqual(loadedSummary, JSON.parse(JSON.stringify(summary)));
+    assert.equal(loadedSummary.HealthCheck.Score, 85.5);
+    assert.equal(loadedSummary.Tests.TestDuration, 12);
+    assert.equal(loadedSummary.Tests.TestMethodsCompleted, 3);
+    assert.equal(loadedSummary.Tests.TestMethodsFailed, 1);
+    assert.equal(loadedSummary.Tests.ApexCoverageDetails.Total, 78);
+    assert.deepEqual(loadedSummary.Tests.ApexCoverageDetails.Details.map(coverage => coverage.CoveragePercentage), [90, 25]);
+  });
+
+  it('converts the numeric strings of older summaries', () => {
+    const summaryPath = path.join(outputDirectory, 'orgsummary.json');
+    fs.writeFileSync(summaryPath, JSON.stringify({
+      SchemaVersion: 2,
+      Timestamp: '1700000000000',
+      ResultState: 'Completed',
+      OrgId: '00D000000000001AAA',
+      Username: 'admin@example.com',
+      OrgInstanceURL: 'https://example.my.salesforce.com',
+      HealthCheck: { Score: '85.5', Criteria: 2, Risks: 1, Compliant: 1, Details: [] },
+      Tests: {
+        ApexUnitTests: '3',
+        TestDuration: '12',
+        TestMethodsCompleted: '3',
+        TestMethodsFailed: '1',
+        TestOutcome: 'Fail',
+        MethodResults: [],
+        SlowestTests: [],
+        FailuresByClass: {},
+        ApexCoverageDetails: { Total: '78', Details: [] },
+        FlowCoverageDetails: { Total: 75, Details: [] }
+      }
+    }), 'utf8');
+
+    const summary = loadSummary(summaryPath);
+    assert.equal(summary.HealthCheck.Score, 85.5);
+    assert.equal(summary.Tests.ApexUnitTests, 3);
+    assert.equal(summary.Tests.TestDuration, 12);
+    assert.equal(summary.Tests.TestMethodsFailed, 1);
+    assert.equal(summary.Tests.ApexCoverageDetails.Total, 78);
+  });
+});